@@ -0,0 +1,64 @@
+import { Auth, User, onAuthStateChanged, signInAnonymously, linkWithPopup, GoogleAuthProvider } from 'firebase/auth';
+import { auth } from './firebase.config';
+
+/**
+ * Handles player identity. Players sign in anonymously so they can play right away,
+ * and can later upgrade to a Google account while keeping the same uid.
+ * The uid is used as the player ID, which the database rules check on every write.
+ */
+export class AuthService {
+    constructor(private firebaseAuth: Auth = auth) {}
+
+    /**
+     * Restores the previous session or signs in anonymously
+     * @returns The signed in user's uid
+     */
+    public async signIn(): Promise<string> {
+        // Wait for Firebase to restore a persisted session before creating a new anonymous user
+        const existingUser = await this.waitForAuthState();
+        if (existingUser) {
+            console.log("Restored session for:", existingUser.uid);
+            return existingUser.uid;
+        }
+
+        const credential = await signInAnonymously(this.firebaseAuth);
+        console.log("Signed in anonymously as:", credential.user.uid);
+        return credential.user.uid;
+    }
+
+    /**
+     * Links the anonymous account to a Google account, keeping the same uid
+     */
+    public async upgradeWithGoogle(): Promise<void> {
+        const user = this.firebaseAuth.currentUser;
+        if (!user) {
+            throw new Error("Cannot upgrade account before signing in");
+        }
+        if (!user.isAnonymous) {
+            console.log("Account is already upgraded");
+            return;
+        }
+
+        await linkWithPopup(user, new GoogleAuthProvider());
+        console.log("Upgraded anonymous account:", user.uid);
+    }
+
+    /**
+     * Returns the signed in user's uid, if any
+     */
+    public getUid(): string | null {
+        return this.firebaseAuth.currentUser ? this.firebaseAuth.currentUser.uid : null;
+    }
+
+    /**
+     * Resolves with the current user once Firebase has finished restoring auth state
+     */
+    private waitForAuthState(): Promise<User | null> {
+        return new Promise((resolve) => {
+            const unsubscribe = onAuthStateChanged(this.firebaseAuth, (user) => {
+                unsubscribe();
+                resolve(user);
+            });
+        });
+    }
+}
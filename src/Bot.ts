@@ -0,0 +1,246 @@
+import { Vector3 } from '@babylonjs/core';
+import { Player } from './Player';
+
+export type BotDifficulty = 'easy' | 'normal' | 'hard';
+
+// How well a bot plays, see Bot.getSkill()
+export interface BotSkill {
+    reactionTime: number;   // Delay before shooting at a newly spotted target (ms)
+    turnSpeed: number;      // Fastest turn (radians per second)
+    aimError: number;       // Largest random aim offset (radians)
+    leadFactor: number;     // Share of the target's movement the bot leads its shots by, 0 to 1
+    fireAngle: number;      // Largest heading error the bot still fires at (radians)
+    dodgeChance: number;    // Chance to jetpack away from an incoming projectile
+    sightRange: number;     // Distance at which enemies are noticed
+    strafes: boolean;       // Whether the bot strafes while fighting
+}
+
+// Another player as seen by a bot
+export interface BotTarget {
+    uuid: string;
+    position: Vector3;
+    velocity: Vector3;      // Estimated from recent positions (units per second)
+}
+
+// What a bot knows about the match when deciding its next move
+export interface BotView {
+    targets: BotTarget[];   // Enemies on the same body as the bot
+    threats: Vector3[];     // Positions of projectiles fired by others
+    objective: Vector3 | null; // Point to hold, like the king of the hill zone
+    projectileSpeed: number; // Angular speed of the bot's current weapon (radians per second)
+}
+
+/**
+ * Computer controlled player. Drives a regular Player through the same movement and
+ * weapon API as the keyboard and mouse: steers over the sphere towards enemies or the
+ * objective, leads its shots and uses the jetpack to dodge incoming fire.
+ */
+export class Bot {
+    private skill: BotSkill;
+    private targetUUID: string | null = null;
+    private targetSince: number = 0; // When the current target was picked (ms)
+    private aimOffset: number = 0; // Current random aim error (radians)
+    private nextAimChange: number = 0;
+    private strafeDirection: number = 1; // 1 right, -1 left
+    private nextStrafeChange: number = 0;
+    private wanderTurn: number = 0; // Turn rate while roaming without a target (radians per second)
+    private nextWanderChange: number = 0;
+    private dodgeUntil: number = 0; // Jetpack stays on until then (ms)
+    private nextDodgeCheck: number = 0;
+    private readonly PREFERRED_RANGE: number = 4; // Bots close in until this distance
+    private readonly MIN_RANGE: number = 2; // And back off when closer
+    private readonly OBJECTIVE_RADIUS: number = 0.5; // Close enough to the objective to stop
+    private readonly DODGE_RADIUS: number = 1.5; // Projectiles this close are dodged
+    private readonly DODGE_CHECK_INTERVAL: number = 300; // How often a bot decides whether to dodge (ms)
+
+    constructor(private player: Player, private difficulty: BotDifficulty) {
+        this.skill = Bot.getSkill(difficulty);
+    }
+
+    /**
+     * Returns the skill settings of a difficulty level
+     * @param difficulty The difficulty level
+     */
+    public static getSkill(difficulty: BotDifficulty): BotSkill {
+        switch (difficulty) {
+            case 'easy':
+                return { reactionTime: 800, turnSpeed: 1.5, aimError: 0.25, leadFactor: 0, fireAngle: 0.2, dodgeChance: 0.1, sightRange: 6, strafes: false };
+            case 'hard':
+                return { reactionTime: 150, turnSpeed: 5, aimError: 0.03, leadFactor: 1, fireAngle: 0.06, dodgeChance: 0.8, sightRange: 12, strafes: true };
+            default:
+                return { reactionTime: 400, turnSpeed: 3, aimError: 0.1, leadFactor: 0.6, fireAngle: 0.12, dodgeChance: 0.4, sightRange: 8, strafes: true };
+        }
+    }
+
+    /**
+     * Returns the player the bot controls
+     */
+    public getPlayer(): Player {
+        return this.player;
+    }
+
+    /**
+     * Returns the bot's difficulty level
+     */
+    public getDifficulty(): BotDifficulty {
+        return this.difficulty;
+    }
+
+    /**
+     * Decides and applies the bot's input for one frame, then updates its player
+     * @param deltaTime Time since last frame in seconds
+     * @param view What the bot knows about the match
+     */
+    public update(deltaTime: number, view: BotView): void {
+        const currentTime = this.player.getTime(); // Simulated time when headless
+        const position = this.player.getMesh().position;
+
+        this.updateDodge(currentTime, position, view.threats);
+
+        const target = this.pickTarget(currentTime, position, view.targets);
+        if (target) {
+            this.fight(deltaTime, currentTime, position, target, view.projectileSpeed);
+        } else if (view.objective && Vector3.Distance(position, view.objective) > this.OBJECTIVE_RADIUS) {
+            this.turnTowards(view.objective, 0, deltaTime);
+            this.player.moveForward(deltaTime);
+        } else {
+            this.wander(deltaTime, currentTime);
+        }
+
+        this.player.update(deltaTime);
+    }
+
+    /**
+     * Switches the jetpack on for a moment when a projectile comes close
+     */
+    private updateDodge(currentTime: number, position: Vector3, threats: Vector3[]): void {
+        if (currentTime >= this.nextDodgeCheck && currentTime >= this.dodgeUntil) {
+            this.nextDodgeCheck = currentTime + this.DODGE_CHECK_INTERVAL;
+            const threatened = threats.some(threat => Vector3.Distance(threat, position) < this.DODGE_RADIUS);
+            if (threatened && Math.random() < this.skill.dodgeChance) {
+                this.dodgeUntil = currentTime + 400 + Math.random() * 300;
+                this.strafeDirection = -this.strafeDirection; // Change direction too, harder to lead
+            }
+        }
+
+        if (currentTime < this.dodgeUntil) {
+            this.player.activateJetpack();
+        } else {
+            this.player.deactivateJetpack();
+        }
+    }
+
+    /**
+     * Keeps the current target while it is in sight, otherwise picks the nearest enemy
+     */
+    private pickTarget(currentTime: number, position: Vector3, targets: BotTarget[]): BotTarget | null {
+        const visible = targets.filter(target => Vector3.Distance(target.position, position) <= this.skill.sightRange);
+
+        let target = visible.find(candidate => candidate.uuid === this.targetUUID) || null;
+        if (!target) {
+            visible.forEach(candidate => {
+                if (!target || Vector3.Distance(candidate.position, position) < Vector3.Distance(target.position, position)) {
+                    target = candidate;
+                }
+            });
+            this.targetUUID = target ? (target as BotTarget).uuid : null;
+            this.targetSince = currentTime;
+        }
+        return target;
+    }
+
+    /**
+     * Keeps the target at a comfortable range, strafing around it, and shoots once on aim
+     */
+    private fight(deltaTime: number, currentTime: number, position: Vector3, target: BotTarget, projectileSpeed: number): void {
+        // Aim where the target will be when the shot arrives
+        const aimPoint = this.getLeadPosition(position, target, projectileSpeed);
+
+        // Re-roll the aim error now and then, so misses are not all to the same side
+        if (currentTime >= this.nextAimChange) {
+            this.nextAimChange = currentTime + 500;
+            this.aimOffset = (Math.random() * 2 - 1) * this.skill.aimError;
+        }
+        const error = this.turnTowards(aimPoint, this.aimOffset, deltaTime);
+
+        // Close in or back off, then circle around the target
+        const distance = Vector3.Distance(position, target.position);
+        if (distance > this.PREFERRED_RANGE) {
+            this.player.moveForward(deltaTime);
+        } else if (distance < this.MIN_RANGE) {
+            this.player.moveBackward(deltaTime);
+        }
+        if (this.skill.strafes) {
+            if (currentTime >= this.nextStrafeChange) {
+                this.nextStrafeChange = currentTime + 1000 + Math.random() * 1500;
+                this.strafeDirection = Math.random() < 0.5 ? -1 : 1;
+            }
+            if (this.strafeDirection > 0) {
+                this.player.strafeRight(deltaTime);
+            } else {
+                this.player.strafeLeft(deltaTime);
+            }
+        }
+
+        // Fire once the reaction time has passed and the aim is close enough
+        if (currentTime - this.targetSince >= this.skill.reactionTime && Math.abs(error) <= this.skill.fireAngle) {
+            this.player.shoot();
+        }
+    }
+
+    /**
+     * Roams the planet, turning in random arcs
+     */
+    private wander(deltaTime: number, currentTime: number): void {
+        if (currentTime >= this.nextWanderChange) {
+            this.nextWanderChange = currentTime + 2000 + Math.random() * 3000;
+            this.wanderTurn = (Math.random() * 2 - 1) * this.skill.turnSpeed * 0.3;
+        }
+        this.player.rotate(this.wanderTurn * deltaTime);
+        this.player.moveForward(deltaTime);
+    }
+
+    /**
+     * Predicts where a target will be when a shot fired now reaches it
+     */
+    private getLeadPosition(position: Vector3, target: BotTarget, projectileSpeed: number): Vector3 {
+        if (this.skill.leadFactor <= 0 || projectileSpeed <= 0) return target.position;
+
+        // Shots fly at a fixed angular speed around the body, so the flight time follows
+        // from the angle to the target. Two rounds are close enough for the aim error bots have.
+        const center = this.player.getPlanet().getCenter();
+        const from = position.subtract(center).normalize();
+        let predicted = target.position;
+        for (let i = 0; i < 2; i++) {
+            const to = predicted.subtract(center).normalize();
+            const flightTime = Math.acos(Math.max(-1, Math.min(1, Vector3.Dot(from, to)))) / projectileSpeed;
+            predicted = target.position.add(target.velocity.scale(flightTime * this.skill.leadFactor));
+        }
+        return predicted;
+    }
+
+    /**
+     * Turns the player towards a point on the sphere, as fast as its skill allows
+     * @param point World position to face
+     * @param offset Extra angle added to the heading (radians), used for aim error
+     * @param deltaTime Time since last frame in seconds
+     * @returns The remaining heading error in radians
+     */
+    private turnTowards(point: Vector3, offset: number, deltaTime: number): number {
+        const mesh = this.player.getMesh();
+        const up = this.player.getUpVector();
+
+        // Direction to the point along the surface
+        const toPoint = point.subtract(mesh.position);
+        const desired = toPoint.subtract(up.scale(Vector3.Dot(toPoint, up)));
+        if (desired.lengthSquared() < 0.000001) return 0;
+
+        // Signed angle around the up vector, positive turns right like Player.rotate()
+        const forward = mesh.forward;
+        const error = Math.atan2(Vector3.Dot(Vector3.Cross(forward, desired), up), Vector3.Dot(forward, desired)) + offset;
+
+        const maxTurn = this.skill.turnSpeed * deltaTime;
+        this.player.rotate(Math.max(-maxTurn, Math.min(maxTurn, error)));
+        return error;
+    }
+}
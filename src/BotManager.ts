@@ -0,0 +1,401 @@
+import { Scene, Vector3 } from '@babylonjs/core';
+import { NetworkTransport, Unsubscribe } from './NetworkTransport';
+import { ClockSync } from './ClockSync';
+import { Player } from './Player';
+import { Projectile } from './Projectile';
+import { StarSystem } from './StarSystem';
+import { PlayerStateCodec } from './PlayerStateCodec';
+import { PlayerData } from './MultiplayerManager';
+import { HealthModel } from './HealthModel';
+import { RoomManager } from './RoomManager';
+import { Bot, BotDifficulty, BotTarget } from './Bot';
+import { SpawnThreats } from './SpawnSelector';
+
+// Bots the host keeps in the room, stored at rooms/<id>/bots
+export interface BotSettings {
+    fillTo: number;             // Bots join until the room has this many players, humans take their slots
+    difficulty: BotDifficulty;
+}
+
+// What the bot manager needs from the multiplayer manager
+export interface BotContext {
+    isHost(): boolean;
+    getPlayerUUIDs(): string[]; // Everyone in the room, including the bots
+    getPlayerPosition(uuid: string): Vector3 | null;
+    areTeammates(uuidA: string, uuidB: string): boolean;
+    getProjectiles(): Projectile[]; // Projectiles in flight, apart from the bots' own
+    getObjective(): Vector3 | null; // Point the match is fought over, if any
+    setupBot(player: Player): void; // Connects a new bot to the multiplayer manager, so its shots are published
+    getSpawnThreats(uuid: string): SpawnThreats; // What a respawning bot should keep away from
+    recordState(uuid: string, position: Vector3, timestamp: number, shielded: boolean): void; // Position history for hit validation
+}
+
+/**
+ * Runs the room's bots on the host. Bots are regular players driven by a Bot controller;
+ * their state and projectiles are published under bot IDs, so every other client sees them
+ * like any other player. The number of bots is stored with the room, so a new host brings
+ * them back after a host change.
+ */
+export class BotManager {
+    public static readonly ID_PREFIX: string = 'bot-';
+
+    private bots: Map<string, Bot> = new Map();
+    private settings: BotSettings | null = null;
+    private settingsReceived: boolean = false;
+    private requested: { count: number, difficulty: BotDifficulty } | null = null; // Bots asked for before we were host
+    private unsubscribe: Unsubscribe | null = null;
+    private lastPublishTime: number = 0;
+    private observed: Map<string, { position: Vector3, time: number, velocity: Vector3 }> = new Map(); // Recent movement of everyone, for leading shots
+    private readonly PUBLISH_INTERVAL: number = 50; // How often bot states are published (ms)
+
+    /**
+     * @param scene Scene the bots are created in
+     * @param transport Network transport holding the bot settings and player states
+     * @param botsPath Path of the bot settings
+     * @param playersPath Path of the player states, bots are published there
+     * @param system Bodies the bots play on
+     * @param clock Server clock used to timestamp bot states
+     * @param codec Encoding of player states
+     * @param context Host role, players and projectiles
+     */
+    constructor(
+        private scene: Scene,
+        private transport: NetworkTransport,
+        private botsPath: string,
+        private playersPath: string,
+        private system: StarSystem,
+        private clock: ClockSync,
+        private codec: PlayerStateCodec,
+        private context: BotContext
+    ) {}
+
+    /**
+     * Returns whether a player ID belongs to a bot
+     * @param uuid Player ID
+     */
+    public static isBotId(uuid: string): boolean {
+        return uuid.indexOf(BotManager.ID_PREFIX) === 0;
+    }
+
+    /**
+     * Returns how many players bots fill a room up to, leaving a slot for humans to join.
+     * Read when needed rather than at load, RoomManager imports us to tell bots apart.
+     */
+    public static getMaxFill(): number {
+        return RoomManager.DEFAULT_MAX_PLAYERS - 1;
+    }
+
+    /**
+     * Starts following the room's bot settings
+     */
+    public start(): void {
+        this.unsubscribe = this.transport.subscribe(this.botsPath, (settings: BotSettings | null) => {
+            this.settings = settings;
+            this.settingsReceived = true;
+        });
+    }
+
+    /**
+     * Returns the room's bot settings, null when no bots were added
+     */
+    public getSettings(): BotSettings | null {
+        return this.settings;
+    }
+
+    /**
+     * Returns whether a player is a bot run by this client
+     * @param uuid Player ID
+     */
+    public isLocalBot(uuid: string): boolean {
+        return this.bots.has(uuid);
+    }
+
+    /**
+     * Returns the IDs of the bots run by this client
+     */
+    public getBotUUIDs(): string[] {
+        return Array.from(this.bots.keys());
+    }
+
+    /**
+     * Returns the player of a bot run by this client
+     * @param uuid Player ID
+     */
+    public getBotPlayer(uuid: string): Player | null {
+        const bot = this.bots.get(uuid);
+        return bot ? bot.getPlayer() : null;
+    }
+
+    /**
+     * Returns the health of a bot run by this client
+     * @param uuid Player ID
+     */
+    public getHealthModel(uuid: string): HealthModel | null {
+        const player = this.getBotPlayer(uuid);
+        return player ? player.getHealthModel() : null;
+    }
+
+    /**
+     * Returns the projectiles the bots have in flight
+     */
+    public getProjectiles(): Projectile[] {
+        const projectiles: Projectile[] = [];
+        this.bots.forEach(bot => projectiles.push(...bot.getPlayer().getProjectiles()));
+        return projectiles;
+    }
+
+    /**
+     * Adds bots once we are the host (e.g. from the URL when starting offline practice)
+     * @param count Number of bots to add
+     * @param difficulty Difficulty of the bots
+     */
+    public request(count: number, difficulty: BotDifficulty): void {
+        this.requested = { count, difficulty };
+    }
+
+    /**
+     * Adds one bot to the room (host only)
+     * @param difficulty Difficulty of the new bot, the room's current one by default
+     * @returns False if we are not the host or the room is full
+     */
+    public addBot(difficulty: BotDifficulty = this.settings ? this.settings.difficulty : 'normal'): boolean {
+        if (!this.context.isHost()) return false;
+
+        const playerCount = this.context.getPlayerUUIDs().length;
+        const fillTo = Math.max(this.settings ? this.settings.fillTo : 0, playerCount) + 1;
+        if (fillTo > BotManager.getMaxFill()) return false;
+
+        this.writeSettings({ fillTo, difficulty });
+        return true;
+    }
+
+    /**
+     * Removes one bot from the room (host only)
+     * @returns False if we are not the host or there are no bots
+     */
+    public removeBot(): boolean {
+        if (!this.context.isHost() || this.bots.size === 0 || !this.settings) return false;
+
+        this.writeSettings({ ...this.settings, fillTo: this.context.getPlayerUUIDs().length - 1 });
+        return true;
+    }
+
+    /**
+     * Changes the difficulty of the room's bots, they are replaced by new ones (host only)
+     * @param difficulty The new difficulty
+     */
+    public setDifficulty(difficulty: BotDifficulty): boolean {
+        if (!this.context.isHost() || !this.settings) return false;
+
+        this.writeSettings({ ...this.settings, difficulty });
+        return true;
+    }
+
+    /**
+     * Adds or removes bots to match the settings, moves them and publishes their state.
+     * Only the host runs bots, everyone else drops theirs.
+     * @param deltaTime Time since last frame in seconds
+     */
+    public update(deltaTime: number): void {
+        if (!this.context.isHost()) {
+            this.getBotUUIDs().forEach(uuid => this.removeBotPlayer(uuid));
+            return;
+        }
+
+        // Bots asked for before we were host join now
+        if (this.requested && this.settingsReceived) {
+            const humanCount = this.context.getPlayerUUIDs().filter(uuid => !BotManager.isBotId(uuid)).length;
+            this.writeSettings({
+                fillTo: Math.min(BotManager.getMaxFill(), humanCount + this.requested.count),
+                difficulty: this.requested.difficulty
+            });
+            this.requested = null;
+        }
+
+        this.reconcile();
+        this.observePlayers();
+
+        const projectiles = this.context.getProjectiles().concat(this.getProjectiles());
+        this.bots.forEach((bot, uuid) => bot.update(deltaTime, {
+            targets: this.getTargets(bot, uuid),
+            threats: projectiles
+                .filter(projectile => projectile.isInFlight() && projectile.getOwnerUUID() !== uuid)
+                .map(projectile => projectile.getPosition()),
+            objective: this.getObjective(bot),
+            projectileSpeed: bot.getPlayer().getWeapon().projectileSpeed
+        }));
+
+        this.publishBots();
+    }
+
+    /**
+     * Respawns a bot after the host confirmed its death
+     * @param uuid Player ID of the bot
+     */
+    public handleKilled(uuid: string): void {
+        const player = this.getBotPlayer(uuid);
+        if (player) {
+            player.respawn(this.context.getSpawnThreats(uuid));
+        }
+    }
+
+    /**
+     * Removes the bots and stops following the settings
+     */
+    public dispose(): void {
+        if (this.unsubscribe) {
+            this.unsubscribe();
+            this.unsubscribe = null;
+        }
+        this.getBotUUIDs().forEach(uuid => this.removeBotPlayer(uuid));
+    }
+
+    /**
+     * Stores new bot settings and applies them right away
+     */
+    private writeSettings(settings: BotSettings): void {
+        this.settings = settings;
+        this.transport.write(this.botsPath, settings).catch(error => console.warn("Failed to store bot settings:", error));
+    }
+
+    /**
+     * Adds and removes bots until their number and difficulty match the settings.
+     * Humans count towards the fill target, so bots leave when people join.
+     */
+    private reconcile(): void {
+        const settings = this.settings;
+        const humanCount = this.context.getPlayerUUIDs().filter(uuid => !BotManager.isBotId(uuid)).length;
+        const wanted = settings ? Math.max(0, Math.min(settings.fillTo, BotManager.getMaxFill()) - humanCount) : 0;
+
+        // Bots of another difficulty are replaced
+        this.bots.forEach((bot, uuid) => {
+            if (!settings || bot.getDifficulty() !== settings.difficulty) {
+                this.removeBotPlayer(uuid);
+            }
+        });
+
+        while (settings && this.bots.size < wanted) {
+            this.addBotPlayer(settings.difficulty);
+        }
+        const uuids = this.getBotUUIDs();
+        while (uuids.length > wanted) {
+            this.removeBotPlayer(uuids.pop()!);
+        }
+    }
+
+    /**
+     * Creates a bot and its player node, which goes away with us if we disconnect
+     */
+    private addBotPlayer(difficulty: BotDifficulty): void {
+        const uuid = BotManager.ID_PREFIX + Player.generateUUID().substring(0, 8);
+        const player = new Player(this.scene, this.system, uuid);
+        player.setDebugCubeVisibility(false);
+        this.context.setupBot(player);
+        this.bots.set(uuid, new Bot(player, difficulty));
+
+        this.transport.onDisconnect(`${this.playersPath}/${uuid}`);
+        console.log(`Added ${difficulty} bot:`, uuid);
+    }
+
+    /**
+     * Removes a bot and its player node
+     */
+    private removeBotPlayer(uuid: string): void {
+        const bot = this.bots.get(uuid);
+        if (!bot) return;
+
+        bot.getPlayer().dispose();
+        this.bots.delete(uuid);
+
+        const path = `${this.playersPath}/${uuid}`;
+        this.transport.cancelOnDisconnect(path);
+        this.transport.remove(path).catch(error => console.warn("Failed to remove bot:", error));
+        console.log("Removed bot:", uuid);
+    }
+
+    /**
+     * Tracks how fast everyone moves, so bots can lead their shots
+     */
+    private observePlayers(): void {
+        const currentTime = Date.now();
+        const uuids = this.context.getPlayerUUIDs();
+
+        uuids.forEach(uuid => {
+            const position = this.context.getPlayerPosition(uuid);
+            if (!position) return;
+
+            const previous = this.observed.get(uuid);
+            let velocity = Vector3.Zero();
+            if (previous) {
+                const elapsed = (currentTime - previous.time) / 1000;
+                if (elapsed <= 0) return;
+                // Smooth out the jitter of interpolated remote positions
+                velocity = Vector3.Lerp(previous.velocity, position.subtract(previous.position).scale(1 / elapsed), 0.3);
+            }
+            this.observed.set(uuid, { position: position.clone(), time: currentTime, velocity });
+        });
+
+        // Forget players that left
+        this.observed.forEach((_, uuid) => {
+            if (uuids.indexOf(uuid) < 0) {
+                this.observed.delete(uuid);
+            }
+        });
+    }
+
+    /**
+     * Returns the enemies a bot can fight, those on the same body. Shots don't reach across.
+     */
+    private getTargets(bot: Bot, botUUID: string): BotTarget[] {
+        const body = bot.getPlayer().getPlanet();
+        const targets: BotTarget[] = [];
+
+        this.observed.forEach((observation, uuid) => {
+            if (uuid === botUUID || this.context.areTeammates(uuid, botUUID)) return;
+            if (this.system.getDominantBody(observation.position) !== body) return;
+            targets.push({ uuid, position: observation.position, velocity: observation.velocity });
+        });
+        return targets;
+    }
+
+    /**
+     * Returns the objective if the bot is on the same body, bots don't fly over to reach it
+     */
+    private getObjective(bot: Bot): Vector3 | null {
+        const objective = this.context.getObjective();
+        if (!objective || this.system.getDominantBody(objective) !== bot.getPlayer().getPlanet()) return null;
+        return objective;
+    }
+
+    /**
+     * Publishes the state of every bot, like the local player's
+     */
+    private publishBots(): void {
+        const currentTime = this.clock.now();
+        if (currentTime - this.lastPublishTime < this.PUBLISH_INTERVAL) return;
+        this.lastPublishTime = currentTime;
+
+        this.bots.forEach((bot, uuid) => {
+            const player = bot.getPlayer();
+            const mesh = player.getMesh();
+            if (!mesh.rotationQuaternion) return;
+
+            const playerData: PlayerData = {
+                position: { x: mesh.position.x, y: mesh.position.y, z: mesh.position.z },
+                rotation: {
+                    x: mesh.rotationQuaternion.x,
+                    y: mesh.rotationQuaternion.y,
+                    z: mesh.rotationQuaternion.z,
+                    w: mesh.rotationQuaternion.w
+                },
+                isJetpackActive: player.isJetpackActive(),
+                isShielded: player.isSpawnProtected(),
+                lastUpdate: currentTime
+            };
+
+            // The host validates hits on bots against this history
+            this.context.recordState(uuid, mesh.position, currentTime, playerData.isShielded);
+            this.transport.write(`${this.playersPath}/${uuid}`, this.codec.encode(playerData)).catch(error => console.warn("Failed to publish bot state:", error));
+        });
+    }
+}
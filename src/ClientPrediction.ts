@@ -0,0 +1,183 @@
+import { Player } from './Player';
+
+// One tick of a player's input, numbered so the authority can acknowledge it
+export interface InputCommand {
+    sequence: number;
+    forward: number;    // 1 forward, -1 backward, 0 standing
+    strafe: number;     // 1 right, -1 left, 0 none
+    turn: number;       // Rotation around the up axis (radians)
+    jetpack: boolean;
+    trigger: boolean;   // Fire button held during the tick
+}
+
+// The part of a player's state that input changes, as corrected by the authority
+export interface MovementState {
+    position: { x: number, y: number, z: number };
+    rotation: { x: number, y: number, z: number, w: number };
+    body: number;       // Index of the body the player belongs to, see StarSystem.getBody()
+    height: number;     // Height above the terrain
+    verticalVelocity: number;
+    fuel: number;
+}
+
+// The authority's state of a player after it processed an input, stored at rooms/<id>/corrections/<uid>
+export interface InputCorrection {
+    sequence: number;   // Last input processed
+    state: MovementState;
+}
+
+// Inputs not acknowledged yet, as sent to the authority at rooms/<id>/inputs/<uid>
+export interface EncodedInputs {
+    c: string[];        // Commands, see ClientPrediction.encode()
+    t: number;          // Time of the update (ms)
+}
+
+// A predicted input and the state it led to
+interface PendingInput {
+    command: InputCommand;
+    state: MovementState;
+}
+
+/**
+ * Predicts the local player's movement. Input is captured once per tick as a numbered
+ * command and applied right away, so the player never waits for the network. Commands
+ * are kept until the authority acknowledges them; when its state for an acknowledged
+ * command differs from the prediction, the player is reset to that state and the commands
+ * the authority hasn't seen yet are replayed on top. The difference is faded out over a
+ * few ticks instead of snapping.
+ */
+export class ClientPrediction {
+    private nextSequence: number = 1;
+    private pending: PendingInput[] = []; // Oldest first
+    private correction: InputCorrection | null = null; // Latest correction, applied at the start of the next frame
+    private lastCorrectedSequence: number = 0;
+    private readonly MAX_PENDING: number = 120; // Inputs kept without acknowledgement, two seconds of ticks
+    private readonly MAX_SENT: number = 6; // Most recent inputs sent with each update, covers an update or two getting lost
+    private readonly POSITION_TOLERANCE: number = 0.01; // Smaller position differences are not corrected
+    private readonly ROTATION_TOLERANCE: number = 0.001; // Smaller rotation differences (1 - |dot|) are not corrected
+
+    constructor(private player: Player) {}
+
+    /**
+     * Numbers a tick's input, applies it to the player and runs the tick
+     * @param input The input held during the tick
+     * @param deltaTime Tick duration in seconds
+     */
+    public predict(input: { forward: number, strafe: number, turn: number, jetpack: boolean, trigger: boolean }, deltaTime: number): InputCommand {
+        // Turn as precisely as the authority receives it, or every turn would be corrected
+        const command: InputCommand = { sequence: this.nextSequence++, ...input, turn: Math.round(input.turn * 1000) / 1000 };
+
+        this.player.applyInput(command, deltaTime);
+        this.player.update(deltaTime);
+
+        this.pending.push({ command, state: this.player.getMovementState() });
+        if (this.pending.length > this.MAX_PENDING) {
+            this.pending.shift();
+        }
+        return command;
+    }
+
+    /**
+     * Stores a correction from the authority, older ones are ignored
+     * @param correction The authority's state after one of our inputs
+     */
+    public receiveCorrection(correction: InputCorrection | null): void {
+        if (!correction || correction.sequence <= this.lastCorrectedSequence) return;
+        if (this.correction && correction.sequence <= this.correction.sequence) return;
+
+        this.correction = correction;
+    }
+
+    /**
+     * Applies the latest correction. Call between frames, while the player holds its
+     * simulated state (see Player.restoreSimulatedTransform()).
+     * @param deltaTime Tick duration in seconds, used to replay inputs
+     */
+    public reconcile(deltaTime: number): void {
+        const correction = this.correction;
+        if (!correction) return;
+        this.correction = null;
+        this.lastCorrectedSequence = correction.sequence;
+
+        // Inputs up to the acknowledged one are done with
+        let predicted: PendingInput | null = null;
+        while (this.pending.length > 0 && this.pending[0].command.sequence <= correction.sequence) {
+            predicted = this.pending.shift()!;
+        }
+
+        // Nothing to compare with, the input was dropped from the buffer long ago
+        if (!predicted || predicted.command.sequence !== correction.sequence) return;
+        if (this.matches(predicted.state, correction.state)) return;
+
+        // Start over from the authority's state and redo what it hasn't seen yet
+        const before = this.player.getMovementState();
+        this.player.setMovementState(correction.state);
+        this.pending.forEach(entry => {
+            this.player.replayInput(entry.command, deltaTime);
+            entry.state = this.player.getMovementState();
+        });
+        this.player.smoothCorrection(before);
+    }
+
+    /**
+     * Returns the inputs to send to the authority, the most recent ones that weren't acknowledged yet
+     */
+    public getUnacknowledged(): InputCommand[] {
+        return this.pending.slice(-this.MAX_SENT).map(entry => entry.command);
+    }
+
+    /**
+     * Returns the number of the latest input
+     */
+    public getSequence(): number {
+        return this.nextSequence - 1;
+    }
+
+    /**
+     * Encodes a command as "sequence,flags,turn", the flags holding the movement keys,
+     * jetpack and trigger and the turn in milliradians
+     */
+    public static encode(command: InputCommand): string {
+        const flags = (command.forward > 0 ? 1 : 0) | (command.forward < 0 ? 2 : 0) |
+            (command.strafe > 0 ? 4 : 0) | (command.strafe < 0 ? 8 : 0) |
+            (command.jetpack ? 16 : 0) | (command.trigger ? 32 : 0);
+        return `${command.sequence},${flags},${Math.round(command.turn * 1000)}`;
+    }
+
+    /**
+     * Decodes a command written by encode(), null when malformed
+     */
+    public static decode(encoded: string): InputCommand | null {
+        const parts = encoded.split(',').map(Number);
+        if (parts.length !== 3 || parts.some(part => !isFinite(part))) return null;
+
+        const [sequence, flags, turn] = parts;
+        return {
+            sequence,
+            forward: (flags & 1) ? 1 : (flags & 2) ? -1 : 0,
+            strafe: (flags & 4) ? 1 : (flags & 8) ? -1 : 0,
+            turn: turn / 1000,
+            jetpack: (flags & 16) !== 0,
+            trigger: (flags & 32) !== 0
+        };
+    }
+
+    /**
+     * Returns whether a predicted state is close enough to the authority's
+     */
+    private matches(predicted: MovementState, actual: MovementState): boolean {
+        if (predicted.body !== actual.body) return false;
+
+        const dx = predicted.position.x - actual.position.x;
+        const dy = predicted.position.y - actual.position.y;
+        const dz = predicted.position.z - actual.position.z;
+        if (Math.sqrt(dx * dx + dy * dy + dz * dz) > this.POSITION_TOLERANCE) return false;
+
+        const a = predicted.rotation;
+        const b = actual.rotation;
+        // Orientations built from the surface vectors aren't always exactly unit length
+        const dot = Math.abs(a.x * b.x + a.y * b.y + a.z * b.z + a.w * b.w) /
+            Math.sqrt((a.x * a.x + a.y * a.y + a.z * a.z + a.w * a.w) * (b.x * b.x + b.y * b.y + b.z * b.z + b.w * b.w));
+        return 1 - dot <= this.ROTATION_TOLERANCE;
+    }
+}
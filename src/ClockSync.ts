@@ -0,0 +1,55 @@
+import { NetworkTransport, Unsubscribe } from './NetworkTransport';
+
+/**
+ * Estimates the offset between the local clock and the server clock so that
+ * timestamps from different clients can be compared.
+ * Firebase publishes its estimate at `.info/serverTimeOffset`; transports without
+ * a server (local matches share one machine clock) report no offset.
+ */
+export class ClockSync {
+    private offset: number = 0; // Smoothed server time offset (ms)
+    private samples: number[] = []; // Recent offset estimates
+    private readonly MAX_SAMPLES: number = 9;
+    private unsubscribe: Unsubscribe;
+
+    constructor(transport: NetworkTransport) {
+        this.unsubscribe = transport.subscribe('.info/serverTimeOffset', (value) => {
+            this.addSample(typeof value === 'number' ? value : 0);
+        });
+    }
+
+    /**
+     * Adds an offset estimate. The median of recent samples is used to ignore outliers.
+     * @param offset Estimated server time minus local time (ms)
+     */
+    public addSample(offset: number): void {
+        this.samples.push(offset);
+        if (this.samples.length > this.MAX_SAMPLES) {
+            this.samples.shift();
+        }
+
+        const sorted = this.samples.slice().sort((a, b) => a - b);
+        this.offset = sorted[Math.floor(sorted.length / 2)];
+    }
+
+    /**
+     * Returns the estimated current server time (ms)
+     */
+    public now(): number {
+        return Date.now() + this.offset;
+    }
+
+    /**
+     * Returns the estimated server time offset (ms)
+     */
+    public getOffset(): number {
+        return this.offset;
+    }
+
+    /**
+     * Stops listening for offset updates
+     */
+    public dispose(): void {
+        this.unsubscribe();
+    }
+}
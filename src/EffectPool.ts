@@ -0,0 +1,142 @@
+import { Scene, MeshBuilder, StandardMaterial, Color3, Mesh, ParticleSystem, Texture, Material } from '@babylonjs/core';
+
+/**
+ * Reuses the meshes, materials, textures and particle systems of projectiles and effects.
+ * Shots and explosions come and go many times a second, creating them from scratch each
+ * time causes garbage collection spikes and texture uploads. There is one pool per scene.
+ */
+export class EffectPool {
+    private static pools: Map<Scene, EffectPool> = new Map();
+
+    private freeMeshes: Mesh[] = []; // Projectile planes not in use, disabled
+    private materials: Map<string, StandardMaterial> = new Map(); // Projectile materials by texture
+    private freeParticles: Map<string, ParticleSystem[]> = new Map(); // Stopped particle systems by kind
+    private usedParticles: Set<ParticleSystem> = new Set(); // Particle systems handed out and not back yet
+    private flareTexture: Texture | null = null; // Shared by every particle system, loaded on first use
+    private readonly FLARE_TEXTURE: string = "assets/textures/flare.png";
+
+    private constructor(private scene: Scene) {}
+
+    /**
+     * Returns the pool of a scene, created on first use and dropped with the scene
+     */
+    public static get(scene: Scene): EffectPool {
+        let pool = EffectPool.pools.get(scene);
+        if (!pool) {
+            pool = new EffectPool(scene);
+            EffectPool.pools.set(scene, pool);
+            scene.onDisposeObservable.addOnce(() => EffectPool.pools.delete(scene));
+        }
+        return pool;
+    }
+
+    /**
+     * Takes a projectile plane, or creates one when all are in use
+     * @param size Width and height of the plane
+     */
+    public acquireProjectileMesh(size: number): Mesh {
+        let mesh = this.freeMeshes.pop();
+        if (!mesh) {
+            // A unit plane scaled to size, so planes fit any weapon
+            mesh = MeshBuilder.CreatePlane("projectile", { size: 1 }, this.scene);
+            mesh.checkCollisions = true;
+        }
+
+        mesh.scaling.setAll(size);
+        mesh.setEnabled(true);
+        return mesh;
+    }
+
+    /**
+     * Hides a projectile plane until the next shot takes it
+     */
+    public releaseProjectileMesh(mesh: Mesh): void {
+        mesh.setEnabled(false);
+        this.freeMeshes.push(mesh);
+    }
+
+    /**
+     * Returns the material of the projectiles drawn with a texture, shared by all of them
+     * @param texture URL of the projectile sprite
+     */
+    public getProjectileMaterial(texture: string): StandardMaterial {
+        let material = this.materials.get(texture);
+        if (!material) {
+            material = new StandardMaterial("projectileMaterial", this.scene);
+            material.diffuseTexture = new Texture(texture, this.scene);
+            material.diffuseTexture.hasAlpha = true;
+            material.useAlphaFromDiffuseTexture = true;
+            material.emissiveColor = new Color3(1.0, 1.0, 1.0);
+            material.alpha = 0.8;
+
+            // Enable transparency and proper blending
+            material.transparencyMode = Material.MATERIAL_ALPHABLEND;
+            material.backFaceCulling = false;
+            material.separateCullingPass = true;
+
+            this.materials.set(texture, material);
+        }
+        return material;
+    }
+
+    /**
+     * Takes a stopped particle system drawing the flare texture. Configure and start it;
+     * once it stops by itself (see ParticleSystem.targetStopDuration) and its last particle
+     * faded, it goes back to the pool. Otherwise hand it back with releaseParticles(), never
+     * dispose it.
+     * @param kind Name of the effect, systems are only reused for the same kind
+     * @param capacity Most particles alive at once
+     */
+    public acquireParticles(kind: string, capacity: number): ParticleSystem {
+        let free = this.freeParticles.get(kind);
+        if (!free) {
+            free = [];
+            this.freeParticles.set(kind, free);
+        }
+
+        let particles = free.pop();
+        if (!particles) {
+            const created = new ParticleSystem(kind, capacity, this.scene);
+            created.particleTexture = this.getFlareTexture();
+            created.onAnimationEnd = () => this.returnParticles(kind, created);
+            particles = created;
+        }
+
+        this.usedParticles.add(particles);
+        return particles;
+    }
+
+    /**
+     * Stops a particle system taken with acquireParticles(). Particles already emitted fade
+     * out first; a system that never started or has nothing left to show is back right away.
+     * Releasing a system twice does nothing.
+     * @param particles The system to hand back
+     */
+    public releaseParticles(particles: ParticleSystem): void {
+        if (!this.usedParticles.has(particles)) return;
+
+        particles.stop();
+        if (!particles.isStarted() || particles.getActiveCount() === 0) {
+            particles.reset();
+            this.returnParticles(particles.name, particles);
+        }
+    }
+
+    /**
+     * Returns the flare texture of the particle effects
+     */
+    public getFlareTexture(): Texture {
+        if (!this.flareTexture) {
+            this.flareTexture = new Texture(this.FLARE_TEXTURE, this.scene);
+        }
+        return this.flareTexture;
+    }
+
+    /**
+     * Puts a particle system back among the free ones of its kind, once
+     */
+    private returnParticles(kind: string, particles: ParticleSystem): void {
+        if (!this.usedParticles.delete(particles)) return;
+        this.freeParticles.get(kind)!.push(particles);
+    }
+}
@@ -0,0 +1,107 @@
+import { Database, ref, onValue, get, set, push, remove, onDisconnect, update, runTransaction } from 'firebase/database';
+import { database } from './firebase.config';
+import { NetworkTransport, Unsubscribe } from './NetworkTransport';
+
+/**
+ * Network transport backed by the Firebase Realtime Database
+ */
+export class FirebaseTransport implements NetworkTransport {
+    private listeners: Set<Unsubscribe> = new Set(); // Active onValue listeners
+
+    constructor(private db: Database = database) {}
+
+    /**
+     * Listens for value changes at a path
+     */
+    public subscribe(path: string, callback: (value: any) => void): Unsubscribe {
+        const unsubscribe = onValue(ref(this.db, path), (snapshot) => {
+            callback(snapshot.exists() ? snapshot.val() : null);
+        });
+
+        // Track the listener so dispose() can release it
+        const release = () => {
+            unsubscribe();
+            this.listeners.delete(release);
+        };
+        this.listeners.add(release);
+
+        return release;
+    }
+
+    /**
+     * Reads the value at a path once
+     */
+    public async read(path: string): Promise<any> {
+        const snapshot = await get(ref(this.db, path));
+        return snapshot.exists() ? snapshot.val() : null;
+    }
+
+    /**
+     * Replaces the value at a path
+     */
+    public write(path: string, value: any): Promise<void> {
+        return set(ref(this.db, path), value);
+    }
+
+    /**
+     * Applies multiple child writes under a path
+     */
+    public update(path: string, updates: {[key: string]: any}): Promise<void> {
+        return update(ref(this.db, path), updates);
+    }
+
+    /**
+     * Generates a Firebase push key without writing data
+     */
+    public push(path: string): string {
+        return push(ref(this.db, path)).key!;
+    }
+
+    /**
+     * Removes the value at a path
+     */
+    public remove(path: string): Promise<void> {
+        return remove(ref(this.db, path));
+    }
+
+    /**
+     * Lets the Firebase server remove the path when our socket disconnects
+     */
+    public onDisconnect(path: string): void {
+        onDisconnect(ref(this.db, path)).remove().catch(error => {
+            console.warn("Failed to schedule removal on disconnect:", error);
+        });
+    }
+
+    /**
+     * Cancels the server-side removal scheduled for the path
+     */
+    public cancelOnDisconnect(path: string): void {
+        onDisconnect(ref(this.db, path)).cancel().catch(error => {
+            console.warn("Failed to cancel removal on disconnect:", error);
+        });
+    }
+
+    /**
+     * Runs a Firebase transaction, retried by the SDK until it commits or aborts
+     */
+    public async transaction(path: string, updateFunction: (current: any) => any): Promise<boolean> {
+        const result = await runTransaction(ref(this.db, path), updateFunction);
+        return result.committed;
+    }
+
+    /**
+     * Follows Firebase's `.info/connected` flag, which reflects the state of our socket
+     */
+    public onConnectionChange(callback: (connected: boolean) => void): Unsubscribe {
+        return this.subscribe('.info/connected', (connected) => callback(connected === true));
+    }
+
+    /**
+     * Detaches all listeners created through this transport
+     */
+    public dispose(): void {
+        this.listeners.forEach(release => release());
+        this.listeners.clear();
+    }
+}
@@ -0,0 +1,56 @@
+/**
+ * Runs the simulation in fixed ticks, independent of the frame rate. Frame time is
+ * collected in an accumulator and spent in whole ticks; the time left over says how far
+ * rendering is between the last two ticks, so meshes can be drawn in between.
+ */
+export class FixedTimestep {
+    public static readonly TICK_RATE: number = 60; // Ticks per second
+    public static readonly TICK_DURATION: number = 1 / FixedTimestep.TICK_RATE; // Seconds per tick
+    private accumulator: number = 0; // Frame time not spent on ticks yet (seconds)
+    private tickCount: number = 0;
+    private readonly MAX_FRAME_TIME: number = 0.25; // Longer frames are cut short, e.g. after a background tab (seconds)
+
+    /**
+     * @param onTick Advances the simulation by one tick
+     */
+    constructor(private onTick: (deltaTime: number) => void) {}
+
+    /**
+     * Adds a frame's time and runs the ticks it covers
+     * @param frameTime Time since the last frame in seconds
+     * @returns The number of ticks run
+     */
+    public advance(frameTime: number): number {
+        this.accumulator += Math.max(0, Math.min(frameTime, this.MAX_FRAME_TIME));
+
+        let ticks = 0;
+        while (this.accumulator >= FixedTimestep.TICK_DURATION) {
+            this.accumulator -= FixedTimestep.TICK_DURATION;
+            this.tickCount++;
+            ticks++;
+            this.onTick(FixedTimestep.TICK_DURATION);
+        }
+        return ticks;
+    }
+
+    /**
+     * Returns how far the current frame is between the last tick and the next one, from 0 to 1
+     */
+    public getAlpha(): number {
+        return this.accumulator / FixedTimestep.TICK_DURATION;
+    }
+
+    /**
+     * Returns the number of ticks run so far
+     */
+    public getTickCount(): number {
+        return this.tickCount;
+    }
+
+    /**
+     * Drops the time collected for the next tick, e.g. after the simulation was paused
+     */
+    public reset(): void {
+        this.accumulator = 0;
+    }
+}
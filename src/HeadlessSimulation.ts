@@ -0,0 +1,399 @@
+import { NullEngine, Scene, Vector3 } from '@babylonjs/core';
+import { Player } from './Player';
+import { Projectile } from './Projectile';
+import { StarSystem, StarSystemDefinition } from './StarSystem';
+import { HitAuthority } from './HitAuthority';
+import { HitClaimData, ProjectileData } from './MultiplayerManager';
+import { WeaponRegistry } from './WeaponRegistry';
+import { FixedTimestep } from './FixedTimestep';
+import { Bot, BotDifficulty, BotTarget } from './Bot';
+import { BotManager } from './BotManager';
+import { SpawnThreats } from './SpawnSelector';
+import { InputCommand, InputCorrection } from './ClientPrediction';
+
+// A hit confirmed by the simulation's authority
+export interface SimulationHit {
+    shooterUUID: string;
+    victimUUID: string;
+    weaponId: string;
+    health: number;     // Victim's health after the hit
+    armor: number;
+    killed: boolean;    // The victim died and was respawned
+    time: number;       // Simulated time of the hit (ms)
+}
+
+/**
+ * Runs the gameplay simulation without rendering, e.g. under Node for tests or a
+ * dedicated server. Players orbit the bodies, fly with the jetpack and shoot exactly
+ * like in the browser; the scene runs on a NullEngine and nothing is loaded or drawn.
+ * Time is simulated, every tick advances it by the fixed tick duration, and hits are
+ * confirmed by the same HitAuthority the host uses.
+ */
+export class HeadlessSimulation {
+    private engine: NullEngine;
+    private scene: Scene;
+    private system: StarSystem;
+    private hitAuthority: HitAuthority;
+    private timestep: FixedTimestep;
+    private time: number = 0; // Simulated time (ms)
+    private players: Map<string, Player> = new Map();
+    private bots: Map<string, Bot> = new Map();
+    private projectileRecords: Map<string, ProjectileData> = new Map();
+    private pendingClaims: HitClaimData[] = []; // Reported during the current tick
+    private nextId: number = 0;
+    private observed: Map<string, { position: Vector3, velocity: Vector3 }> = new Map(); // Movement of everyone during the last tick, for the bots
+    private inputQueues: Map<string, InputCommand[]> = new Map(); // Received inputs of players driven by a client, one runs per tick
+    private lastInputs: Map<string, number> = new Map(); // Sequence of the latest input received per player
+    private processedInputs: Map<string, number> = new Map(); // Sequence of the latest input run per player
+    private onInput: (deltaTime: number) => void = () => {};
+    private onHit: (hit: SimulationHit) => void = () => {};
+    private readonly RECORD_DURATION: number = 5000; // How long projectiles can still be claimed (ms)
+
+    /**
+     * @param definition Bodies to play on, a random system by default
+     */
+    constructor(definition: StarSystemDefinition = StarSystem.createRandomDefinition()) {
+        this.engine = new NullEngine();
+        this.scene = new Scene(this.engine);
+        this.system = new StarSystem(this.scene, definition); // Heightmaps only, no meshes are built
+        this.hitAuthority = new HitAuthority(this.system);
+        this.timestep = new FixedTimestep(deltaTime => this.tick(deltaTime));
+    }
+
+    /**
+     * Adds a player controlled through its own API, e.g. moveForward() and shoot() from the input handler
+     * @param uuid Player ID, a random one by default
+     */
+    public addPlayer(uuid: string = Player.generateUUID()): Player {
+        const player = new Player(this.scene, this.system, uuid, () => this.time, true);
+        player.setMultiplayerManager(this);
+        this.players.set(uuid, player);
+        return player;
+    }
+
+    /**
+     * Adds a computer controlled player
+     * @param difficulty Difficulty of the bot
+     */
+    public addBot(difficulty: BotDifficulty = 'normal'): Player {
+        const player = this.addPlayer(BotManager.ID_PREFIX + Player.generateUUID().substring(0, 8));
+        this.bots.set(player.getUUID(), new Bot(player, difficulty));
+        return player;
+    }
+
+    /**
+     * Removes a player or bot
+     * @param uuid Player ID
+     */
+    public removePlayer(uuid: string): void {
+        const player = this.players.get(uuid);
+        if (!player) return;
+
+        player.dispose();
+        this.players.delete(uuid);
+        this.bots.delete(uuid);
+        this.observed.delete(uuid);
+        this.inputQueues.delete(uuid);
+        this.lastInputs.delete(uuid);
+        this.processedInputs.delete(uuid);
+        this.hitAuthority.removePlayer(uuid);
+    }
+
+    /**
+     * Returns a player or bot
+     * @param uuid Player ID
+     */
+    public getPlayer(uuid: string): Player | null {
+        return this.players.get(uuid) || null;
+    }
+
+    /**
+     * Returns every player, bots included
+     */
+    public getPlayers(): Player[] {
+        return Array.from(this.players.values());
+    }
+
+    /**
+     * Returns the bodies of the simulation
+     */
+    public getSystem(): StarSystem {
+        return this.system;
+    }
+
+    /**
+     * Returns the simulated time (ms)
+     */
+    public getTime(): number {
+        return this.time;
+    }
+
+    /**
+     * Sets the function applying the players' input, called at the start of every tick
+     * @param handler Receives the tick duration in seconds
+     */
+    public setInputHandler(handler: (deltaTime: number) => void): void {
+        this.onInput = handler;
+    }
+
+    /**
+     * Sets the function told about every confirmed hit
+     */
+    public setOnHitCallback(callback: (hit: SimulationHit) => void): void {
+        this.onHit = callback;
+    }
+
+    /**
+     * Queues inputs a client predicted for one of the players, the simulation is then the
+     * authority over that player. Inputs already received are skipped, so clients can send
+     * the same input several times.
+     * @param uuid Player ID
+     * @param commands Inputs in the order they were made
+     */
+    public receiveInputs(uuid: string, commands: InputCommand[]): void {
+        if (!this.players.has(uuid)) return;
+
+        let queue = this.inputQueues.get(uuid);
+        if (!queue) {
+            queue = [];
+            this.inputQueues.set(uuid, queue);
+        }
+
+        let last = this.lastInputs.get(uuid) || 0;
+        commands.forEach(command => {
+            if (command.sequence <= last) return;
+            queue!.push(command);
+            last = command.sequence;
+        });
+        this.lastInputs.set(uuid, last);
+    }
+
+    /**
+     * Returns the state of a client driven player after its latest input, to send back
+     * to its client. Before any of its inputs ran the sequence is 0: clients only publish
+     * inputs once they received a correction, this first one tells them an authority is there.
+     * @param uuid Player ID
+     */
+    public getCorrection(uuid: string): InputCorrection | null {
+        const player = this.players.get(uuid);
+        if (!player) return null;
+
+        return { sequence: this.processedInputs.get(uuid) || 0, state: player.getMovementState() };
+    }
+
+    /**
+     * Runs a number of ticks
+     * @param ticks Number of ticks to run
+     */
+    public step(ticks: number = 1): void {
+        for (let i = 0; i < ticks; i++) {
+            this.tick(FixedTimestep.TICK_DURATION);
+        }
+    }
+
+    /**
+     * Runs the ticks covered by a span of time, the rest is carried over to the next call
+     * @param seconds Time to simulate
+     * @returns The number of ticks run
+     */
+    public advance(seconds: number): number {
+        let ticks = 0;
+        // The timestep caps single frames, split long spans so none of it is lost
+        while (seconds > 0) {
+            const frameTime = Math.min(seconds, 0.1);
+            ticks += this.timestep.advance(frameTime);
+            seconds -= frameTime;
+        }
+        return ticks;
+    }
+
+    /**
+     * Registers a projectile fired by one of the players, like the multiplayer manager
+     * publishes it. Called by Player.shoot().
+     * @returns The projectile's ID
+     */
+    public addProjectile(projectile: Projectile, position: Vector3, direction: Vector3): string {
+        const id = `projectile-${this.nextId++}`;
+        this.projectileRecords.set(id, {
+            id,
+            position: { x: position.x, y: position.y, z: position.z },
+            direction: { x: direction.x, y: direction.y, z: direction.z },
+            ownerUUID: projectile.getOwnerUUID(),
+            weaponId: projectile.getWeapon().id,
+            // The projectile flies its first tick right after being fired
+            createdAt: this.time - FixedTimestep.TICK_DURATION * 1000
+        });
+        return id;
+    }
+
+    /**
+     * Queues a hit for the authority, confirmed at the end of the tick. Called by the
+     * shooter's projectiles.
+     */
+    public reportHit(projectileId: string, shooterUUID: string, victimUUID: string): void {
+        this.pendingClaims.push({
+            id: `claim-${this.nextId++}`,
+            projectileId,
+            shooterUUID,
+            victimUUID,
+            reporterUUID: shooterUUID,
+            hitTime: this.time
+        });
+    }
+
+    /**
+     * Releases the scene and the engine
+     */
+    public dispose(): void {
+        this.getPlayers().forEach(player => this.removePlayer(player.getUUID()));
+        this.scene.dispose();
+        this.engine.dispose();
+    }
+
+    /**
+     * Advances the simulation by one tick
+     */
+    private tick(deltaTime: number): void {
+        this.time += deltaTime * 1000;
+
+        this.onInput(deltaTime);
+
+        const threats = this.getProjectiles();
+        this.players.forEach((player, uuid) => {
+            const bot = this.bots.get(uuid);
+            if (bot) {
+                bot.update(deltaTime, {
+                    targets: this.getTargets(player),
+                    threats: threats
+                        .filter(projectile => projectile.isInFlight() && projectile.getOwnerUUID() !== uuid)
+                        .map(projectile => projectile.getPosition()),
+                    objective: null,
+                    projectileSpeed: player.getWeapon().projectileSpeed
+                });
+            } else if (this.inputQueues.has(uuid)) {
+                this.runInputs(uuid, player, deltaTime);
+            } else {
+                player.update(deltaTime);
+            }
+        });
+
+        // Positions at the end of the tick, for hit validation and the bots
+        this.players.forEach((player, uuid) => {
+            const position = player.getMesh().position;
+            this.hitAuthority.recordPlayerState(uuid, position, this.time, player.isSpawnProtected());
+
+            const previous = this.observed.get(uuid);
+            const velocity = previous ? position.subtract(previous.position).scale(1 / deltaTime) : Vector3.Zero();
+            this.observed.set(uuid, { position: position.clone(), velocity });
+        });
+
+        this.processHitClaims();
+        this.pruneProjectileRecords();
+    }
+
+    /**
+     * Runs the inputs received for a client driven player since the last tick. The player
+     * only moves with its inputs, so it runs exactly the ticks its client predicted.
+     */
+    private runInputs(uuid: string, player: Player, deltaTime: number): void {
+        const queue = this.inputQueues.get(uuid)!;
+        while (queue.length > 0) {
+            const command = queue.shift()!;
+            player.applyInput(command, deltaTime);
+            player.update(deltaTime);
+            this.processedInputs.set(uuid, command.sequence);
+        }
+    }
+
+    /**
+     * Validates the hits reported during the tick and applies their damage. Players
+     * are respawned right away when killed.
+     */
+    private processHitClaims(): void {
+        const claims = this.pendingClaims;
+        this.pendingClaims = [];
+
+        claims.forEach(claim => {
+            const projectile = this.projectileRecords.get(claim.projectileId);
+            const victim = this.players.get(claim.victimUUID);
+            if (!projectile || !victim || !this.hitAuthority.validateHit(claim, projectile)) return;
+
+            const healthModel = victim.getHealthModel();
+            if (healthModel.isDead()) return;
+
+            const weapon = WeaponRegistry.get(projectile.weaponId);
+            const state = healthModel.computeDamage(weapon.damage, this.time);
+            healthModel.setState(state, this.time);
+
+            const killed = state.health <= 0;
+            if (killed) {
+                healthModel.reset(this.time);
+                victim.respawn(this.getSpawnThreats(claim.victimUUID));
+            }
+
+            this.onHit({
+                shooterUUID: claim.shooterUUID,
+                victimUUID: claim.victimUUID,
+                weaponId: weapon.id,
+                health: state.health,
+                armor: state.armor,
+                killed,
+                time: this.time
+            });
+        });
+    }
+
+    /**
+     * Returns the projectiles in flight
+     */
+    private getProjectiles(): Projectile[] {
+        const projectiles: Projectile[] = [];
+        this.players.forEach(player => projectiles.push(...player.getProjectiles()));
+        return projectiles;
+    }
+
+    /**
+     * Returns the enemies a bot can fight, those on the same body
+     */
+    private getTargets(bot: Player): BotTarget[] {
+        const body = bot.getPlanet();
+        const targets: BotTarget[] = [];
+
+        this.observed.forEach((observation, uuid) => {
+            if (uuid === bot.getUUID()) return;
+            if (this.system.getDominantBody(observation.position) !== body) return;
+            targets.push({ uuid, position: observation.position, velocity: observation.velocity });
+        });
+        return targets;
+    }
+
+    /**
+     * Returns what a respawning player should keep away from
+     */
+    private getSpawnThreats(uuid: string): SpawnThreats {
+        const enemies: Vector3[] = [];
+        this.players.forEach((player, otherUUID) => {
+            if (otherUUID !== uuid) {
+                enemies.push(player.getMesh().position);
+            }
+        });
+
+        const projectiles = this.getProjectiles()
+            .filter(projectile => projectile.isInFlight() && projectile.getOwnerUUID() !== uuid)
+            .map(projectile => projectile.getPosition());
+
+        return { enemies, projectiles };
+    }
+
+    /**
+     * Forgets projectiles that can no longer be claimed
+     */
+    private pruneProjectileRecords(): void {
+        this.projectileRecords.forEach((record, id) => {
+            if (this.time - record.createdAt > this.RECORD_DURATION) {
+                this.projectileRecords.delete(id);
+            }
+        });
+        this.hitAuthority.prune();
+    }
+}
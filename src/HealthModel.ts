@@ -0,0 +1,96 @@
+// Health and armor after a change, as published in damage events
+export interface HealthState {
+    health: number;
+    armor: number;
+}
+
+/**
+ * Health and armor of one player. The host applies damage and publishes the result,
+ * every client then sets the same state and derives regeneration from the event time,
+ * so all clients show the same health without sending regeneration updates.
+ */
+export class HealthModel {
+    public static readonly MAX_HEALTH: number = 100;
+    public static readonly MAX_ARMOR: number = 100;
+    public static readonly SPAWN_ARMOR: number = 50; // Armor every player spawns with
+    public static readonly ARMOR_ABSORPTION: number = 0.6; // Share of the damage taken by armor while it lasts
+    public static readonly REGEN_DELAY: number = 4000; // Time without damage before health regenerates (ms)
+    public static readonly REGEN_RATE: number = 10; // Health regenerated per second
+
+    private health: number = HealthModel.MAX_HEALTH; // Health at the last change, without regeneration
+    private armor: number = HealthModel.SPAWN_ARMOR;
+    private lastChange: number = 0; // Server time of the last damage or reset (ms)
+
+    /**
+     * Returns the health at a point in time, including regeneration since the last damage
+     * @param time Server time (ms)
+     */
+    public getHealth(time: number): number {
+        // Dead players stay dead until they respawn
+        if (this.health <= 0) return 0;
+
+        const regenTime = Math.max(0, time - this.lastChange - HealthModel.REGEN_DELAY);
+        return Math.min(HealthModel.MAX_HEALTH, this.health + regenTime / 1000 * HealthModel.REGEN_RATE);
+    }
+
+    /**
+     * Returns the remaining armor, armor does not regenerate
+     */
+    public getArmor(): number {
+        return this.armor;
+    }
+
+    /**
+     * Returns whether the player has no health left
+     */
+    public isDead(): boolean {
+        return this.health <= 0;
+    }
+
+    /**
+     * Computes the state after taking damage, without changing the model.
+     * Used by the host before publishing a damage event.
+     * @param amount Damage dealt
+     * @param time Server time of the hit (ms)
+     */
+    public computeDamage(amount: number, time: number): HealthState {
+        const absorbed = Math.min(this.armor, amount * HealthModel.ARMOR_ABSORPTION);
+        const health = Math.max(0, this.getHealth(time) - (amount - absorbed));
+
+        // Round so every client stores exactly the published numbers
+        return { health: Math.round(health), armor: Math.round(this.armor - absorbed) };
+    }
+
+    /**
+     * Computes the state after healing, without changing the model. Armor is not restored.
+     * @param amount Health restored
+     * @param time Server time of the healing (ms)
+     */
+    public computeHealing(amount: number, time: number): HealthState {
+        const health = Math.min(HealthModel.MAX_HEALTH, this.getHealth(time) + amount);
+        return { health: Math.round(health), armor: Math.round(this.armor) };
+    }
+
+    /**
+     * Sets the state published by the authority. Events older than the current state are ignored.
+     * @param state New health and armor
+     * @param time Server time of the change (ms)
+     * @returns False if the event was out of date
+     */
+    public setState(state: HealthState, time: number): boolean {
+        if (time < this.lastChange) return false;
+
+        this.health = state.health;
+        this.armor = state.armor;
+        this.lastChange = time;
+        return true;
+    }
+
+    /**
+     * Restores full health and spawn armor on respawn
+     * @param time Server time of the respawn (ms)
+     */
+    public reset(time: number): void {
+        this.setState({ health: HealthModel.MAX_HEALTH, armor: HealthModel.SPAWN_ARMOR }, time);
+    }
+}
@@ -0,0 +1,186 @@
+import { Vector3 } from '@babylonjs/core';
+import { Projectile } from './Projectile';
+import { HitClaimData, ProjectileData } from './MultiplayerManager';
+import { WeaponRegistry } from './WeaponRegistry';
+import { StarSystem } from './StarSystem';
+
+// A timestamped player position used for lag compensation
+interface PositionSample {
+    position: Vector3;
+    timestamp: number;
+    shielded: boolean;  // Spawn protected, hits are ignored
+}
+
+/**
+ * Validates hit claims on the authority (host client or headless server).
+ * Keeps a short position history of every player so that hits can be checked
+ * against where the victim actually was when the shot reached them.
+ */
+export class HitAuthority {
+    private history: Map<string, PositionSample[]> = new Map(); // Position history per player
+    private processedProjectiles: Map<string, number> = new Map(); // Hit key (see getHitKey) -> time processed
+    private readonly HISTORY_DURATION: number = 1000; // How long to keep position samples (ms)
+    private readonly HIT_RADIUS: number = 0.5; // Max distance between shot and victim center
+    private readonly LAG_TOLERANCE: number = 0.4; // Extra distance allowed for interpolation error
+    private readonly TIME_TOLERANCE: number = 250; // Extra time allowed beyond the projectile lifespan (ms)
+
+    /**
+     * @param system Bodies whose gravity bends shots and whose terrain stops them, hits behind
+     *     it are rejected. None to replay shots around the origin without the terrain check.
+     */
+    constructor(private system: StarSystem | null = null) {}
+
+    /**
+     * Records a player's position at a point in time
+     * @param playerUUID The player the sample belongs to
+     * @param position World position of the player
+     * @param timestamp Time the position was sampled
+     * @param shielded Whether the player was spawn protected
+     */
+    public recordPlayerState(playerUUID: string, position: Vector3, timestamp: number, shielded: boolean = false): void {
+        let samples = this.history.get(playerUUID);
+        if (!samples) {
+            samples = [];
+            this.history.set(playerUUID, samples);
+        }
+
+        // Ignore duplicate or out of order samples
+        if (samples.length > 0 && samples[samples.length - 1].timestamp >= timestamp) return;
+
+        samples.push({ position: position.clone(), timestamp, shielded });
+
+        // Drop samples older than the history window
+        while (samples.length > 2 && timestamp - samples[0].timestamp > this.HISTORY_DURATION) {
+            samples.shift();
+        }
+    }
+
+    /**
+     * Forgets a player that left the match
+     */
+    public removePlayer(playerUUID: string): void {
+        this.history.delete(playerUUID);
+    }
+
+    /**
+     * Returns the lag compensated position of a player at a given time
+     * @returns Interpolated position, or null when we have no history for the player
+     */
+    public getPositionAt(playerUUID: string, timestamp: number): Vector3 | null {
+        const samples = this.history.get(playerUUID);
+        if (!samples || samples.length === 0) return null;
+
+        // Clamp to the oldest/newest known positions
+        if (timestamp <= samples[0].timestamp) return samples[0].position.clone();
+        const newest = samples[samples.length - 1];
+        if (timestamp >= newest.timestamp) return newest.position.clone();
+
+        // Interpolate between the two samples surrounding the timestamp
+        for (let i = 1; i < samples.length; i++) {
+            const after = samples[i];
+            if (after.timestamp >= timestamp) {
+                const before = samples[i - 1];
+                const t = (timestamp - before.timestamp) / (after.timestamp - before.timestamp);
+                return Vector3.Lerp(before.position, after.position, t);
+            }
+        }
+
+        return newest.position.clone();
+    }
+
+    /**
+     * Returns whether a player was spawn protected at a given time, going by the
+     * newest sample at or before it
+     */
+    public isShieldedAt(playerUUID: string, timestamp: number): boolean {
+        const samples = this.history.get(playerUUID);
+        if (!samples || samples.length === 0) return false;
+
+        let sample = samples[0];
+        for (let i = 1; i < samples.length && samples[i].timestamp <= timestamp; i++) {
+            sample = samples[i];
+        }
+        return sample.shielded;
+    }
+
+    /**
+     * Checks a hit claim against the rewound victim position and the projectile trajectory
+     * @param claim The reported hit
+     * @param projectile The projectile that supposedly hit
+     * @returns True if the hit is confirmed
+     */
+    public validateHit(claim: HitClaimData, projectile: ProjectileData): boolean {
+        const weapon = WeaponRegistry.get(projectile.weaponId);
+        
+        // Each projectile can only hit once, or once per victim for splash weapons
+        const hitKey = HitAuthority.getHitKey(claim.projectileId, claim.victimUUID, projectile.weaponId);
+        if (this.processedProjectiles.has(hitKey)) return false;
+
+        // Reject mismatched owners and self hits
+        if (projectile.ownerUUID !== claim.shooterUUID || claim.shooterUUID === claim.victimUUID) {
+            return false;
+        }
+
+        // The hit must happen while the projectile was alive
+        const flightTime = claim.hitTime - projectile.createdAt;
+        if (flightTime < 0 || flightTime > weapon.lifespan + this.TIME_TOLERANCE) return false;
+
+        // Rewind the victim to the moment of the hit
+        const victimPosition = this.getPositionAt(claim.victimUUID, claim.hitTime);
+        if (!victimPosition) return false;
+
+        // Spawn protected players can't be hit
+        if (this.isShieldedAt(claim.victimUUID, claim.hitTime)) return false;
+
+        const start = new Vector3(projectile.position.x, projectile.position.y, projectile.position.z);
+        const direction = new Vector3(projectile.direction.x, projectile.direction.y, projectile.direction.z);
+
+        // Recompute where the projectile was at that time. Shots end where they fly into
+        // the terrain, nothing behind it can be hit.
+        const flight = Projectile.simulateFlight(this.system, start, direction, flightTime / 1000, weapon.projectileSpeed);
+        if (flight.impactTime !== null && flightTime > flight.impactTime * 1000 + this.TIME_TOLERANCE) return false;
+        const projectilePosition = flight.position;
+
+        // Splash hits only need the victim inside the blast
+        const hitRadius = Math.max(this.HIT_RADIUS, weapon.splashRadius);
+        if (Vector3.Distance(victimPosition, projectilePosition) > hitRadius + this.LAG_TOLERANCE) {
+            return false;
+        }
+
+        this.processedProjectiles.set(hitKey, Date.now());
+        return true;
+    }
+
+    /**
+     * Marks a hit as already used, e.g. from damage published by a previous host
+     * @param projectileId The projectile that hit
+     * @param victimUUID The player who was hit
+     * @param weaponId Weapon that fired the projectile
+     */
+    public markProcessed(projectileId: string, victimUUID: string, weaponId: string): void {
+        const hitKey = HitAuthority.getHitKey(projectileId, victimUUID, weaponId);
+        if (!this.processedProjectiles.has(hitKey)) {
+            this.processedProjectiles.set(hitKey, Date.now());
+        }
+    }
+
+    /**
+     * Returns the key a hit is deduplicated by. Direct hit projectiles are used up by
+     * their first hit, splash projectiles can hit each victim once.
+     */
+    private static getHitKey(projectileId: string, victimUUID: string, weaponId: string | undefined): string {
+        return WeaponRegistry.get(weaponId).splashRadius > 0 ? `${projectileId}/${victimUUID}` : projectileId;
+    }
+
+    /**
+     * Forgets processed projectiles that can no longer be claimed
+     */
+    public prune(): void {
+        const currentTime = Date.now();
+        this.processedProjectiles.forEach((processedAt, id) => {
+            if (currentTime - processedAt > 5000) {
+                this.processedProjectiles.delete(id);
+            }
+        });
+    }
+}
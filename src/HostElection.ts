@@ -0,0 +1,150 @@
+import { NetworkTransport, Unsubscribe } from './NetworkTransport';
+import { ClockSync } from './ClockSync';
+
+// Host lease stored at rooms/<id>/host
+export interface HostLease {
+    uuid: string;       // Player currently holding the lease
+    expiresAt: number;  // Server time when the lease lapses unless renewed
+}
+
+/**
+ * Lease based leader election. The host renews a lease in the database with a
+ * heartbeat; when the lease is released or expires another player claims it with
+ * a transaction, so exactly one client runs host-only duties at any time.
+ */
+export class HostElection {
+    private isHost: boolean = false;
+    private lease: HostLease | null = null; // Latest lease seen in the database
+    private heartbeatTimer: number = 0;
+    private unsubscribe: Unsubscribe | null = null;
+    private readonly LEASE_DURATION: number = 5000; // How long a lease lasts without renewal (ms)
+    private readonly HEARTBEAT_INTERVAL: number = 1500; // How often the host renews, and others check the lease (ms)
+
+    /**
+     * @param transport Network transport holding the lease
+     * @param leasePath Path of the lease node
+     * @param playerUUID Our player's identity
+     * @param clock Server clock used for lease expiry
+     * @param onHostChanged Called when we gain or lose the host role
+     */
+    constructor(
+        private transport: NetworkTransport,
+        private leasePath: string,
+        private playerUUID: string,
+        private clock: ClockSync,
+        private onHostChanged: (isHost: boolean) => void
+    ) {}
+
+    /**
+     * Starts watching the lease and competing for it
+     */
+    public start(): void {
+        // Follow lease changes, a released lease is claimed right away
+        this.unsubscribe = this.transport.subscribe(this.leasePath, (lease: HostLease | null) => {
+            this.lease = lease;
+            this.setHost(!!lease && lease.uuid === this.playerUUID && lease.expiresAt > this.clock.now());
+
+            if (!lease) {
+                this.tryClaim();
+            }
+        });
+
+        // Heartbeat: renew our lease or take over an expired one
+        this.heartbeatTimer = window.setInterval(() => this.tick(), this.HEARTBEAT_INTERVAL);
+    }
+
+    /**
+     * Returns whether we currently hold the host lease
+     */
+    public isHostClient(): boolean {
+        return this.isHost;
+    }
+
+    /**
+     * Returns the UUID of the current host, if any
+     */
+    public getHostUUID(): string | null {
+        return this.lease && this.lease.expiresAt > this.clock.now() ? this.lease.uuid : null;
+    }
+
+    /**
+     * Competes for the lease again after the connection came back. The server ran our
+     * disconnect handler while we were away, so a lease we held needs to be re-armed.
+     */
+    public resume(): void {
+        if (this.isHost) {
+            this.transport.onDisconnect(this.leasePath);
+        }
+        this.tryClaim();
+    }
+
+    /**
+     * Stops competing for the lease and hands it over if we hold it
+     */
+    public release(): void {
+        clearInterval(this.heartbeatTimer);
+        if (this.unsubscribe) {
+            this.unsubscribe();
+            this.unsubscribe = null;
+        }
+
+        // Removing the lease lets the remaining players elect a new host immediately
+        if (this.isHost) {
+            this.transport.cancelOnDisconnect(this.leasePath);
+            this.transport.remove(this.leasePath).catch(error => console.warn("Failed to release host lease:", error));
+            this.setHost(false);
+        }
+    }
+
+    /**
+     * Periodic lease renewal or takeover
+     */
+    private tick(): void {
+        const currentTime = this.clock.now();
+
+        if (this.isHost || !this.lease || this.lease.expiresAt <= currentTime) {
+            this.tryClaim();
+        }
+    }
+
+    /**
+     * Claims or renews the lease. The transaction only succeeds when the lease is
+     * free, expired or already ours.
+     */
+    private tryClaim(): void {
+        this.transport.transaction(this.leasePath, (current: HostLease | null) => {
+            const currentTime = this.clock.now();
+            if (current && current.uuid !== this.playerUUID && current.expiresAt > currentTime) {
+                return undefined; // Someone else holds a valid lease
+            }
+            return { uuid: this.playerUUID, expiresAt: currentTime + this.LEASE_DURATION };
+        }).then((committed) => {
+            // The lease subscription confirms the outcome, we only lose the role here
+            if (!committed && this.isHost) {
+                this.setHost(false);
+            }
+        }).catch(error => {
+            console.warn("Failed to claim host lease:", error);
+        });
+    }
+
+    /**
+     * Updates the host flag and the disconnect handler that frees the lease
+     */
+    private setHost(isHost: boolean): void {
+        if (isHost === this.isHost) return;
+        this.isHost = isHost;
+
+        if (isHost) {
+            // Free the lease as soon as our connection drops
+            this.transport.onDisconnect(this.leasePath);
+            console.log("Became host");
+        } else {
+            // Don't remove a lease that now belongs to someone else
+            this.transport.cancelOnDisconnect(this.leasePath);
+            console.log("No longer host");
+        }
+
+        this.onHostChanged(isHost);
+    }
+}
@@ -0,0 +1,371 @@
+import { NetworkTransport, Unsubscribe } from './NetworkTransport';
+
+// Messages exchanged between transports sharing a BroadcastChannel
+type LocalTransportMessage =
+    | { type: 'set', path: string, value: any, sender: string, version?: WriteVersion }
+    | { type: 'sync-request', sender: string }
+    | { type: 'sync-state', state: any, target: string, sender: string };
+
+// Orders transactional writes so every peer keeps the same winner (last writer wins)
+interface WriteVersion {
+    time: number;
+    sender: string;
+}
+
+interface LocalSubscriber {
+    path: string;
+    callback: (value: any) => void;
+}
+
+// Characters used for push keys, ordered so keys sort chronologically
+const PUSH_CHARS = '-0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ_abcdefghijklmnopqrstuvwxyz';
+
+/**
+ * In-memory network transport. Instances with the same channel name (e.g. several
+ * browser tabs, or several transports inside one test process) share their state
+ * through a BroadcastChannel, so matches can run without any outside service.
+ */
+export class LocalTransport implements NetworkTransport {
+    private root: any = null; // Whole data tree, mirrors the Firebase JSON layout
+    private subscribers: Set<LocalSubscriber> = new Set();
+    private disconnectPaths: Set<string> = new Set(); // Paths removed when this client leaves
+    private channel: BroadcastChannel | null = null;
+    private readonly clientId: string = LocalTransport.generateKey();
+    private lastPushTime: number = 0; // Used to keep push keys ordered within the same millisecond
+    private lastPushRandom: number[] = [];
+    private disposed: boolean = false;
+    private writeVersions: Map<string, WriteVersion> = new Map(); // Version of the last transactional write per path
+    private readonly handlePageHide = () => this.dispose();
+
+    constructor(channelName: string = 'fragnauts') {
+        // BroadcastChannel is available in browsers and Node 18+, fall back to a single client otherwise
+        if (typeof BroadcastChannel !== 'undefined') {
+            this.channel = new BroadcastChannel(channelName);
+            this.channel.onmessage = (event: MessageEvent) => this.handleMessage(event.data);
+
+            // Ask existing peers for their current state
+            this.post({ type: 'sync-request', sender: this.clientId });
+        }
+
+        // Closing the tab counts as a disconnect
+        if (typeof window !== 'undefined') {
+            window.addEventListener('pagehide', this.handlePageHide);
+        }
+    }
+
+    /**
+     * Listens for value changes at a path, invoking the callback asynchronously with the current value
+     */
+    public subscribe(path: string, callback: (value: any) => void): Unsubscribe {
+        const subscriber: LocalSubscriber = { path: LocalTransport.normalizePath(path), callback };
+        this.subscribers.add(subscriber);
+
+        // Deliver the initial value asynchronously like Firebase does
+        Promise.resolve().then(() => {
+            if (this.subscribers.has(subscriber)) {
+                subscriber.callback(this.getValue(subscriber.path));
+            }
+        });
+
+        return () => {
+            this.subscribers.delete(subscriber);
+        };
+    }
+
+    /**
+     * Reads the value at a path once
+     */
+    public async read(path: string): Promise<any> {
+        return this.getValue(LocalTransport.normalizePath(path));
+    }
+
+    /**
+     * Replaces the value at a path and broadcasts the change to peers
+     */
+    public async write(path: string, value: any): Promise<void> {
+        const normalized = LocalTransport.normalizePath(path);
+        const cloned = LocalTransport.clone(value);
+        this.writeVersions.delete(normalized);
+        this.applySet(normalized, cloned);
+        this.post({ type: 'set', path: normalized, value: cloned, sender: this.clientId });
+    }
+
+    /**
+     * Applies multiple child writes under a path
+     */
+    public async update(path: string, updates: {[key: string]: any}): Promise<void> {
+        const normalized = LocalTransport.normalizePath(path);
+        for (const key of Object.keys(updates)) {
+            await this.write(normalized ? `${normalized}/${key}` : key, updates[key]);
+        }
+    }
+
+    /**
+     * Generates a chronologically ordered unique key
+     */
+    public push(path: string): string {
+        const now = Date.now();
+        const duplicateTime = now === this.lastPushTime;
+        this.lastPushTime = now;
+
+        // Encode the timestamp so keys sort by creation time
+        let timeChars = '';
+        let time = now;
+        for (let i = 0; i < 8; i++) {
+            timeChars = PUSH_CHARS.charAt(time % 64) + timeChars;
+            time = Math.floor(time / 64);
+        }
+
+        // Random suffix, incremented when several keys are generated within the same millisecond
+        if (!duplicateTime || this.lastPushRandom.length === 0) {
+            this.lastPushRandom = [];
+            for (let i = 0; i < 12; i++) {
+                this.lastPushRandom.push(Math.floor(Math.random() * 64));
+            }
+        } else {
+            let i = 11;
+            for (; i >= 0 && this.lastPushRandom[i] === 63; i--) {
+                this.lastPushRandom[i] = 0;
+            }
+            this.lastPushRandom[Math.max(i, 0)]++;
+        }
+
+        return timeChars + this.lastPushRandom.map(n => PUSH_CHARS.charAt(n)).join('');
+    }
+
+    /**
+     * Removes the value at a path
+     */
+    public remove(path: string): Promise<void> {
+        return this.write(path, null);
+    }
+
+    /**
+     * Removes the path from the shared state when this transport is disposed or the page closes
+     */
+    public onDisconnect(path: string): void {
+        this.disconnectPaths.add(LocalTransport.normalizePath(path));
+    }
+
+    /**
+     * Cancels a removal scheduled with onDisconnect()
+     */
+    public cancelOnDisconnect(path: string): void {
+        this.disconnectPaths.delete(LocalTransport.normalizePath(path));
+    }
+
+    /**
+     * Updates a value from its current local state. Peers can commit at the same time,
+     * conflicting writes are resolved identically on every peer by their version.
+     */
+    public async transaction(path: string, updateFunction: (current: any) => any): Promise<boolean> {
+        const normalized = LocalTransport.normalizePath(path);
+        const newValue = updateFunction(this.getValue(normalized));
+        if (newValue === undefined) return false;
+
+        const version: WriteVersion = { time: Date.now(), sender: this.clientId };
+        const cloned = LocalTransport.clone(newValue);
+        this.writeVersions.set(normalized, version);
+        this.applySet(normalized, cloned);
+        this.post({ type: 'set', path: normalized, value: cloned, sender: this.clientId, version });
+        return true;
+    }
+
+    /**
+     * Reports a live connection, tabs sharing the channel never lose it
+     */
+    public onConnectionChange(callback: (connected: boolean) => void): Unsubscribe {
+        let active = true;
+
+        // Deliver the state asynchronously like subscribe()
+        Promise.resolve().then(() => {
+            if (active && !this.disposed) {
+                callback(true);
+            }
+        });
+
+        return () => {
+            active = false;
+        };
+    }
+
+    /**
+     * Runs pending disconnect removals and closes the channel
+     */
+    public dispose(): void {
+        if (this.disposed) return;
+        this.disposed = true;
+
+        // Simulate the server-side disconnect handlers
+        this.disconnectPaths.forEach(path => this.remove(path));
+        this.disconnectPaths.clear();
+
+        this.subscribers.clear();
+        if (this.channel) {
+            this.channel.close();
+            this.channel = null;
+        }
+        if (typeof window !== 'undefined') {
+            window.removeEventListener('pagehide', this.handlePageHide);
+        }
+    }
+
+    /**
+     * Handles a message from another transport on the same channel
+     */
+    private handleMessage(message: LocalTransportMessage): void {
+        if (!message || message.sender === this.clientId) return;
+
+        switch (message.type) {
+            case 'set':
+                if (message.version) {
+                    // Drop transactional writes that lost against a newer one we already applied
+                    const current = this.writeVersions.get(message.path);
+                    if (current && LocalTransport.compareVersions(current, message.version) > 0) break;
+                    this.writeVersions.set(message.path, message.version);
+                } else {
+                    this.writeVersions.delete(message.path);
+                }
+                this.applySet(message.path, message.value);
+                break;
+            case 'sync-request':
+                // Share our state with the newcomer
+                if (this.root !== null) {
+                    this.post({ type: 'sync-state', state: this.root, target: message.sender, sender: this.clientId });
+                }
+                break;
+            case 'sync-state':
+                // Merge a peer's full state into ours, keeping anything we wrote since joining.
+                // Later changes arrive as 'set' messages.
+                if (message.target === this.clientId) {
+                    this.root = LocalTransport.merge(this.root, message.state);
+                    this.notify('');
+                }
+                break;
+        }
+    }
+
+    /**
+     * Writes a value into the local tree and notifies affected subscribers
+     */
+    private applySet(path: string, value: any): void {
+        const keys = path ? path.split('/') : [];
+
+        if (keys.length === 0) {
+            this.root = value;
+        } else {
+            if (this.root === null || typeof this.root !== 'object') {
+                this.root = {};
+            }
+
+            // Walk down, creating intermediate nodes as needed
+            let node = this.root;
+            for (let i = 0; i < keys.length - 1; i++) {
+                if (node[keys[i]] === null || typeof node[keys[i]] !== 'object') {
+                    node[keys[i]] = {};
+                }
+                node = node[keys[i]];
+            }
+
+            const lastKey = keys[keys.length - 1];
+            if (value === null || value === undefined) {
+                delete node[lastKey];
+            } else {
+                node[lastKey] = value;
+            }
+
+            // Prune empty parents, Firebase never stores empty objects
+            this.root = LocalTransport.prune(this.root);
+        }
+
+        this.notify(path);
+    }
+
+    /**
+     * Invokes subscribers whose path overlaps the changed path
+     */
+    private notify(changedPath: string): void {
+        this.subscribers.forEach(subscriber => {
+            if (LocalTransport.pathsOverlap(subscriber.path, changedPath)) {
+                subscriber.callback(this.getValue(subscriber.path));
+            }
+        });
+    }
+
+    /**
+     * Returns a copy of the value stored at a path, or null
+     */
+    private getValue(path: string): any {
+        let node = this.root;
+        if (path) {
+            for (const key of path.split('/')) {
+                if (node === null || typeof node !== 'object' || !(key in node)) {
+                    return null;
+                }
+                node = node[key];
+            }
+        }
+        return node === undefined ? null : LocalTransport.clone(node);
+    }
+
+    /**
+     * Posts a message to peers when a channel is open
+     */
+    private post(message: LocalTransportMessage): void {
+        if (this.channel) {
+            this.channel.postMessage(message);
+        }
+    }
+
+    private static normalizePath(path: string): string {
+        return path.split('/').filter(key => key.length > 0).join('/');
+    }
+
+    private static pathsOverlap(a: string, b: string): boolean {
+        return a === b || a === '' || b === '' || a.startsWith(b + '/') || b.startsWith(a + '/');
+    }
+
+    private static compareVersions(a: WriteVersion, b: WriteVersion): number {
+        if (a.time !== b.time) return a.time - b.time;
+        return a.sender < b.sender ? -1 : a.sender > b.sender ? 1 : 0;
+    }
+
+    private static clone(value: any): any {
+        return value === null || value === undefined ? null : JSON.parse(JSON.stringify(value));
+    }
+
+    /**
+     * Deep merges two trees, values from `primary` win
+     */
+    private static merge(primary: any, secondary: any): any {
+        if (primary === null || typeof primary !== 'object') return primary ?? secondary;
+        if (secondary === null || typeof secondary !== 'object') return primary;
+
+        const result: any = { ...secondary };
+        Object.keys(primary).forEach(key => {
+            result[key] = LocalTransport.merge(primary[key], secondary[key]);
+        });
+        return result;
+    }
+
+    /**
+     * Removes empty objects from a tree, returning null when nothing is left
+     */
+    private static prune(node: any): any {
+        if (node === null || typeof node !== 'object') return node;
+
+        Object.keys(node).forEach(key => {
+            const child = LocalTransport.prune(node[key]);
+            if (child === null) {
+                delete node[key];
+            } else {
+                node[key] = child;
+            }
+        });
+        return Object.keys(node).length > 0 ? node : null;
+    }
+
+    private static generateKey(): string {
+        return Math.random().toString(36).slice(2) + Date.now().toString(36);
+    }
+}
@@ -0,0 +1,468 @@
+import { Scene, Vector3, Quaternion, MeshBuilder, StandardMaterial, Color3, Mesh } from '@babylonjs/core';
+import { NetworkTransport, Unsubscribe } from './NetworkTransport';
+import { ClockSync } from './ClockSync';
+import { Scoreboard } from './Scoreboard';
+import { Planet } from './Planet';
+import { StarSystem } from './StarSystem';
+
+export type GameMode = 'ffa' | 'tdm' | 'koth';
+export type MatchPhase = 'warmup' | 'live' | 'overtime' | 'results';
+export type Team = 'red' | 'blue';
+
+// Mode and limits chosen when the room is created, stored in the room's meta
+export interface MatchSettings {
+    mode: GameMode;
+    scoreLimit: number; // Frags (team frags in team deathmatch, seconds in the zone for king of the hill) that win the match
+    timeLimit: number;  // Length of the live phase (ms)
+}
+
+// Match progress stored at rooms/<id>/match, written by the host only
+export interface MatchState {
+    phase: MatchPhase;
+    phaseStartedAt: number;                 // Server time the phase started (ms)
+    phaseEndsAt: number;                    // Server time the phase runs out (ms)
+    liveStartedAt: number;                  // Server time the live phase started, kills before it don't count
+    teams?: {[uuid: string]: Team};         // Team deathmatch only
+    zone?: { x: number, y: number, z: number }; // King of the hill only, direction of the capture zone from the main planet's center
+    zoneMovedAt?: number;                   // Server time the zone last moved
+    zoneScores?: {[uuid: string]: number};  // Seconds each player held the zone
+    winner?: string;                        // Winning player or team, missing for a draw
+}
+
+// A player's or team's score in the current match
+export interface Standing {
+    id: string;     // Player UUID, or team in team deathmatch
+    score: number;
+}
+
+// What the match manager needs to know about the game, provided by the multiplayer manager
+export interface MatchContext {
+    isHost(): boolean;
+    getPlayerUUIDs(): string[];
+    getPlayerPosition(uuid: string): Vector3 | null;
+    getPlayerBody(uuid: string): Planet | null; // Body whose gravity holds the player
+    getScoreboard(): Scoreboard;
+}
+
+/**
+ * Runs the match state machine: warmup, live, overtime when tied at the time limit,
+ * and results, then a new match. The host drives the transitions and scoring, every
+ * client follows the state stored in the room.
+ */
+export class MatchManager {
+    private state: MatchState | null = null;
+    private unsubscribe: Unsubscribe | null = null;
+    private tickTimer: number = 0;
+    private zoneMesh: Mesh | null = null; // Capture zone marker for king of the hill
+    private readonly WARMUP_DURATION: number = 15000; // Time to gather before the match counts (ms)
+    private readonly OVERTIME_DURATION: number = 60000; // Longest overtime before the match is a draw (ms)
+    private readonly RESULTS_DURATION: number = 10000; // How long results are shown (ms)
+    private readonly TICK_INTERVAL: number = 1000; // How often the host checks limits and scores the zone (ms)
+    private readonly ZONE_RADIUS: number = 1.5; // Capture zone radius along the surface
+    private readonly ZONE_MOVE_INTERVAL: number = 30000; // How long the zone stays in one place (ms)
+
+    /**
+     * @param scene Scene the capture zone is shown in
+     * @param transport Network transport holding the match state
+     * @param matchPath Path of the match state node
+     * @param killsPath Path of the kill events, cleared for every new match
+     * @param settings Mode and limits of the room
+     * @param clock Server clock used for phase timing
+     * @param planet Main planet of the star system, the capture zone is placed on it
+     * @param context Access to players and scores
+     * @param onStateChanged Called whenever the match state changes
+     */
+    constructor(
+        private scene: Scene,
+        private transport: NetworkTransport,
+        private matchPath: string,
+        private killsPath: string,
+        private settings: MatchSettings,
+        private clock: ClockSync,
+        private planet: Planet,
+        private context: MatchContext,
+        private onStateChanged: (state: MatchState | null) => void
+    ) {}
+
+    /**
+     * Returns the default limits of a mode
+     * @param mode The game mode
+     */
+    public static getDefaultSettings(mode: GameMode): MatchSettings {
+        switch (mode) {
+            case 'tdm':
+                return { mode, scoreLimit: 40, timeLimit: 10 * 60000 };
+            case 'koth':
+                return { mode, scoreLimit: 120, timeLimit: 10 * 60000 };
+            default:
+                return { mode: 'ffa', scoreLimit: 20, timeLimit: 10 * 60000 };
+        }
+    }
+
+    /**
+     * Returns a readable name for a mode
+     */
+    public static getModeName(mode: GameMode): string {
+        switch (mode) {
+            case 'tdm': return 'Team Deathmatch';
+            case 'koth': return 'King of the Hill';
+            default: return 'Deathmatch';
+        }
+    }
+
+    /**
+     * Starts following the match state, and driving it while we are the host
+     */
+    public start(): void {
+        this.unsubscribe = this.transport.subscribe(this.matchPath, (state: MatchState | null) => {
+            this.state = state;
+            this.updateZoneMesh();
+            this.onStateChanged(state);
+        });
+
+        this.tickTimer = window.setInterval(() => {
+            if (this.context.isHost()) {
+                this.hostTick();
+            }
+        }, this.TICK_INTERVAL);
+    }
+
+    /**
+     * Returns the room's mode and limits
+     */
+    public getSettings(): MatchSettings {
+        return this.settings;
+    }
+
+    /**
+     * Returns the current match state, null until the host started the first match
+     */
+    public getState(): MatchState | null {
+        return this.state;
+    }
+
+    /**
+     * Returns the time left in the current phase (ms)
+     */
+    public getTimeRemaining(): number {
+        return this.state ? Math.max(0, this.state.phaseEndsAt - this.clock.now()) : 0;
+    }
+
+    /**
+     * Returns whether a kill at the given time counts towards the current match
+     * @param timestamp Server time of the kill
+     */
+    public isCounted(timestamp: number): boolean {
+        if (!this.state) return true; // Rooms without a match state yet count everything
+        if (this.state.phase === 'warmup') return false;
+        if (timestamp < this.state.liveStartedAt) return false;
+        return this.state.phase !== 'results' || timestamp < this.state.phaseStartedAt;
+    }
+
+    /**
+     * Returns a player's team in team deathmatch
+     */
+    public getTeam(uuid: string): Team | null {
+        return this.state && this.state.teams ? this.state.teams[uuid] || null : null;
+    }
+
+    /**
+     * Returns whether two different players are on the same team, so they can't hurt each other
+     */
+    public areTeammates(a: string, b: string): boolean {
+        if (this.settings.mode !== 'tdm' || a === b) return false;
+        const team = this.getTeam(a);
+        return team !== null && team === this.getTeam(b);
+    }
+
+    /**
+     * Returns the scores of the current match, best first. Players in free-for-all modes,
+     * teams in team deathmatch.
+     */
+    public getStandings(): Standing[] {
+        return this.computeStandings(this.state);
+    }
+
+    /**
+     * Computes the standings for a match state
+     */
+    private computeStandings(state: MatchState | null): Standing[] {
+        const playerUUIDs = this.context.getPlayerUUIDs();
+
+        if (this.settings.mode === 'tdm') {
+            const totals: {[team: string]: number} = { red: 0, blue: 0 };
+            this.context.getScoreboard().getRanking(playerUUIDs).forEach(score => {
+                const team = state && state.teams ? state.teams[score.uuid] : undefined;
+                if (team) {
+                    totals[team] += score.kills;
+                }
+            });
+            return Object.keys(totals)
+                .map(team => ({ id: team, score: totals[team] }))
+                .sort((a, b) => b.score - a.score);
+        }
+
+        if (this.settings.mode === 'koth') {
+            const zoneScores = (state && state.zoneScores) || {};
+            const ids = new Set<string>(playerUUIDs);
+            Object.keys(zoneScores).forEach(uuid => ids.add(uuid));
+            return Array.from(ids)
+                .map(uuid => ({ id: uuid, score: zoneScores[uuid] || 0 }))
+                .sort((a, b) => b.score - a.score);
+        }
+
+        return this.context.getScoreboard().getRanking(playerUUIDs)
+            .map(score => ({ id: score.uuid, score: score.kills }));
+    }
+
+    /**
+     * Stops following the match and removes the capture zone
+     */
+    public dispose(): void {
+        clearInterval(this.tickTimer);
+        if (this.unsubscribe) {
+            this.unsubscribe();
+            this.unsubscribe = null;
+        }
+        if (this.zoneMesh) {
+            this.zoneMesh.dispose();
+            this.zoneMesh = null;
+        }
+    }
+
+    /**
+     * Advances the match and scores the capture zone (host only)
+     */
+    private hostTick(): void {
+        const currentTime = this.clock.now();
+
+        // The first host of a room starts the first match
+        if (!this.state) {
+            this.startWarmup(currentTime);
+            return;
+        }
+
+        const state: MatchState = { ...this.state };
+        let changed = false;
+
+        // Players joining mid-match go to the smaller team
+        if (this.settings.mode === 'tdm') {
+            const teams = this.assignTeams(state.teams || {});
+            if (Object.keys(teams).length !== Object.keys(state.teams || {}).length) {
+                state.teams = teams;
+                changed = true;
+            }
+        }
+
+        switch (state.phase) {
+            case 'warmup':
+                if (currentTime >= state.phaseEndsAt) {
+                    state.phase = 'live';
+                    state.phaseStartedAt = currentTime;
+                    state.phaseEndsAt = currentTime + this.settings.timeLimit;
+                    state.liveStartedAt = currentTime;
+                    state.zoneScores = {};
+                    changed = true;
+                    console.log("Match started");
+                }
+                break;
+
+            case 'live':
+            case 'overtime':
+                if (this.settings.mode === 'koth' && this.scoreZone(state, currentTime)) {
+                    changed = true;
+                }
+                if (this.checkMatchEnd(state, currentTime)) {
+                    changed = true;
+                }
+                break;
+
+            case 'results':
+                if (currentTime >= state.phaseEndsAt) {
+                    this.startWarmup(currentTime);
+                    return;
+                }
+                break;
+        }
+
+        if (changed) {
+            this.transport.write(this.matchPath, state).catch(error => console.warn("Failed to publish match state:", error));
+        }
+    }
+
+    /**
+     * Ends the match when the score limit is reached or time runs out, going to
+     * overtime when the lead is tied at the time limit
+     * @returns True if the state changed
+     */
+    private checkMatchEnd(state: MatchState, currentTime: number): boolean {
+        // Standings of the state being built, the zone scores may have just changed
+        const standings = this.computeStandings(state);
+
+        const leader = standings[0];
+        const tied = !leader || (standings.length > 1 && standings[1].score === leader.score);
+
+        let ended = false;
+        if (leader && leader.score >= this.settings.scoreLimit && !tied) {
+            ended = true;
+        } else if (state.phase === 'overtime' && !tied) {
+            ended = true; // Sudden death, the first point decides
+        } else if (currentTime >= state.phaseEndsAt) {
+            if (state.phase === 'live' && tied) {
+                state.phase = 'overtime';
+                state.phaseStartedAt = currentTime;
+                state.phaseEndsAt = currentTime + this.OVERTIME_DURATION;
+                console.log("Match tied, going to overtime");
+                return true;
+            }
+            ended = true;
+        }
+
+        if (!ended) return false;
+
+        state.phase = 'results';
+        state.phaseStartedAt = currentTime;
+        state.phaseEndsAt = currentTime + this.RESULTS_DURATION;
+        if (leader && !tied) {
+            state.winner = leader.id;
+        } else {
+            delete state.winner; // Draw
+        }
+        console.log("Match over, winner:", state.winner || "draw");
+        return true;
+    }
+
+    /**
+     * Starts a new match: clears the previous kills and sets up teams or the zone
+     */
+    private startWarmup(currentTime: number): void {
+        this.clearKills();
+
+        const state: MatchState = {
+            phase: 'warmup',
+            phaseStartedAt: currentTime,
+            phaseEndsAt: currentTime + this.WARMUP_DURATION,
+            liveStartedAt: 0
+        };
+        if (this.settings.mode === 'tdm') {
+            state.teams = this.assignTeams({});
+        }
+        if (this.settings.mode === 'koth') {
+            const zone = StarSystem.randomDirection();
+            state.zone = { x: zone.x, y: zone.y, z: zone.z };
+            state.zoneMovedAt = currentTime;
+        }
+
+        this.transport.write(this.matchPath, state).catch(error => console.warn("Failed to publish match state:", error));
+        console.log("Warmup started:", MatchManager.getModeName(this.settings.mode));
+    }
+
+    /**
+     * Removes the previous match's kill events so the scoreboard starts over
+     */
+    private clearKills(): void {
+        this.transport.read(this.killsPath).then((kills) => {
+            if (!kills) return;
+
+            // Remove each event on its own, the rules only allow writes per kill
+            const updates: {[key: string]: any} = {};
+            Object.keys(kills).forEach(id => updates[id] = null);
+            return this.transport.update(this.killsPath, updates);
+        }).catch(error => console.warn("Failed to clear kills:", error));
+    }
+
+    /**
+     * Keeps existing team assignments, so players who leave still count for their team
+     * and keep it when they return, and puts new players on the smaller team
+     */
+    private assignTeams(current: {[uuid: string]: Team}): {[uuid: string]: Team} {
+        const teams: {[uuid: string]: Team} = { ...current };
+        const counts: {[team: string]: number} = { red: 0, blue: 0 };
+        const playerUUIDs = this.context.getPlayerUUIDs().slice().sort(); // Same order on every host
+
+        // Balance by the players actually in the room
+        playerUUIDs.forEach(uuid => {
+            if (teams[uuid]) {
+                counts[teams[uuid]]++;
+            }
+        });
+        playerUUIDs.forEach(uuid => {
+            if (!teams[uuid]) {
+                teams[uuid] = counts.red <= counts.blue ? 'red' : 'blue';
+                counts[teams[uuid]]++;
+            }
+        });
+
+        return teams;
+    }
+
+    /**
+     * Gives a second to the player holding the capture zone alone, and moves the zone
+     * when its time is up
+     * @returns True if the state changed
+     */
+    private scoreZone(state: MatchState, currentTime: number): boolean {
+        if (!state.zone) return false;
+        const zoneDirection = new Vector3(state.zone.x, state.zone.y, state.zone.z);
+        const planetRadius = this.planet.getBaseRadius();
+
+        // Contested zones don't score, players on the moons are never in the zone
+        const holders = this.context.getPlayerUUIDs().filter(uuid => {
+            const position = this.context.getPlayerPosition(uuid);
+            if (!position || this.context.getPlayerBody(uuid) !== this.planet) return false;
+            const angle = Math.acos(Math.min(1, Vector3.Dot(this.planet.getUpVector(position), zoneDirection)));
+            return angle * planetRadius <= this.ZONE_RADIUS;
+        });
+
+        let changed = false;
+        if (holders.length === 1) {
+            const zoneScores = { ...(state.zoneScores || {}) };
+            zoneScores[holders[0]] = (zoneScores[holders[0]] || 0) + this.TICK_INTERVAL / 1000;
+            state.zoneScores = zoneScores;
+            changed = true;
+        }
+
+        if (currentTime - (state.zoneMovedAt || 0) >= this.ZONE_MOVE_INTERVAL) {
+            const zone = StarSystem.randomDirection();
+            state.zone = { x: zone.x, y: zone.y, z: zone.z };
+            state.zoneMovedAt = currentTime;
+            changed = true;
+        }
+
+        return changed;
+    }
+
+    /**
+     * Shows the capture zone where the match state puts it
+     */
+    private updateZoneMesh(): void {
+        const zone = this.state ? this.state.zone : undefined;
+        if (this.settings.mode !== 'koth' || !zone) {
+            if (this.zoneMesh) {
+                this.zoneMesh.isVisible = false;
+            }
+            return;
+        }
+
+        if (!this.zoneMesh) {
+            // Tall translucent column, so it shows through hills and craters
+            this.zoneMesh = MeshBuilder.CreateCylinder("captureZone", {
+                diameter: this.ZONE_RADIUS * 2,
+                height: this.planet.getBaseRadius() * 0.6
+            }, this.scene);
+            const material = new StandardMaterial("captureZoneMaterial", this.scene);
+            material.diffuseColor = new Color3(1, 0.85, 0.2);
+            material.emissiveColor = new Color3(0.6, 0.5, 0.1);
+            material.alpha = 0.25;
+            material.backFaceCulling = false;
+            this.zoneMesh.material = material;
+            this.zoneMesh.isPickable = false;
+        }
+
+        // Stand the column on the surface, along the planet normal
+        const normal = new Vector3(zone.x, zone.y, zone.z).normalize();
+        this.zoneMesh.position = this.planet.getCenter().add(normal.scale(this.planet.getBaseRadius()));
+        this.zoneMesh.rotationQuaternion = Quaternion.FromUnitVectorsToRef(Vector3.Up(), normal, new Quaternion());
+        this.zoneMesh.isVisible = true;
+    }
+}
@@ -1,23 +1,42 @@
-import { ref, onValue, set, push, remove, onDisconnect, update, DataSnapshot } from 'firebase/database';
-import { database } from './firebase.config';
-import { Scene, Vector3, ParticleSystem, Texture, Color4, AbstractMesh } from '@babylonjs/core';
+import { Scene, Vector3, Quaternion, ParticleSystem, Color4, AbstractMesh } from '@babylonjs/core';
 import { Player } from './Player';
 import { Planet } from './Planet';
+import { StarSystem } from './StarSystem';
 import { Projectile } from './Projectile';
+import { NetworkTransport, Unsubscribe } from './NetworkTransport';
+import { HitAuthority } from './HitAuthority';
+import { RoomManager } from './RoomManager';
+import { PlayerStateCodec, EncodedPlayerData } from './PlayerStateCodec';
+import { ClockSync } from './ClockSync';
+import { SnapshotBuffer } from './SnapshotBuffer';
+import { HostElection } from './HostElection';
+import { Scoreboard } from './Scoreboard';
+import { HealthModel, HealthState } from './HealthModel';
+import { WeaponRegistry } from './WeaponRegistry';
+import { WeaponState } from './WeaponState';
+import { MatchManager, MatchSettings } from './MatchManager';
+import { PickupManager } from './PickupManager';
+import { BotManager } from './BotManager';
+import { SpawnThreats } from './SpawnSelector';
+import { ClientPrediction, EncodedInputs, InputCorrection } from './ClientPrediction';
+import { EffectPool } from './EffectPool';
 
-// Types to define data structure in Firebase
-interface PlayerData {
+// Types to define data structure in the network store
+// Player state as used by the game, stored in compact form (see PlayerStateCodec)
+export interface PlayerData {
     position: { x: number, y: number, z: number };
     rotation: { x: number, y: number, z: number, w: number };
     isJetpackActive: boolean;
+    isShielded: boolean;    // Spawn protected
     lastUpdate: number;
 }
 
-interface ProjectileData {
+export interface ProjectileData {
     id: string;
     position: { x: number, y: number, z: number };
     direction: { x: number, y: number, z: number };
     ownerUUID: string;
+    weaponId: string;   // Weapon that fired it, see WeaponRegistry
     createdAt: number;
 }
 
@@ -27,26 +46,196 @@ interface DeathEffectData {
     createdAt: number;
 }
 
+// A client's report that a projectile overlapped a player, confirmed or rejected by the authority
+export interface HitClaimData {
+    id: string;
+    projectileId: string;
+    shooterUUID: string;
+    victimUUID: string;
+    reporterUUID: string;
+    hitTime: number;
+}
+
+// Damage confirmed by the authority, carrying the victim's resulting health and armor.
+// Health packs are published the same way, with a negative amount.
+export interface DamageEventData extends HealthState {
+    id: string;
+    attackerUUID: string;
+    victimUUID: string;
+    projectileId: string;   // Projectile that hit, or the pickup claim for healing
+    weapon: string;         // Weapon ID, or 'healthpack' for healing
+    amount: number;     // Damage dealt before armor
+    timestamp: number;
+}
+
+// Tunable settings for rendering remote players from their snapshot buffers
+export interface InterpolationSettings {
+    delay: number;              // How far in the past remote players are rendered (ms)
+    bufferLength: number;       // Snapshots kept per remote player
+    maxExtrapolation: number;   // How long to extrapolate when snapshots are late (ms)
+}
+
+// A hit confirmed by the authority, applied by every client
+export interface KillEventData {
+    id: string;
+    killerUUID: string;
+    victimUUID: string;
+    projectileId: string;
+    weapon: string;     // Weapon that fired the killing projectile
+    timestamp: number;
+}
+
 export class MultiplayerManager {
-    private playersRef = ref(database, 'players');
-    private projectilesRef = ref(database, 'projectiles');
-    private deathEffectsRef = ref(database, 'deathEffects');
+    // Data paths, namespaced under rooms/<id>/
+    private readonly playersPath: string;
+    private readonly projectilesPath: string;
+    private readonly deathEffectsPath: string;
+    private readonly hitClaimsPath: string;
+    private readonly killsPath: string;
+    private readonly damagePath: string;
+    private readonly hostPath: string;
+    private readonly matchPath: string;
+    private readonly pickupsPath: string;
+    private readonly botsPath: string;
+    private readonly inputsPath: string;
+    private readonly correctionsPath: string;
     private playerUUID: string;
-    private isHost: boolean = false;
+    private isHost: boolean = false; // Mirrors the host election, host-only duties check it
+    private hostElection: HostElection;
     private otherPlayers: Map<string, Player> = new Map();
     private otherProjectiles: Map<string, Projectile> = new Map();
+    private finishedProjectiles: Set<string> = new Set(); // Remote projectiles that hit or expired here, still listed until their owner removes them
     private deathEffects: Map<string, ParticleSystem> = new Map();
+    private projectileRecords: Map<string, ProjectileData> = new Map(); // Every accepted projectile, used to validate hits
+    private rejectedProjectiles: Set<string> = new Set(); // Projectiles fired faster than their weapon allows
+    private remoteWeaponStates: Map<string, Map<string, WeaponState>> = new Map(); // Replayed weapon state per remote player and weapon
+    private readonly SHOT_TOLERANCE: number = 50; // Slack for clock jitter when checking remote fire rates (ms)
+    private readonly MAX_SHOT_DELAY: number = 500; // Longest a remote shot may take to reach us, earlier claimed fire times are moved up (ms)
+    private spawnProtection: Map<string, number> = new Map(); // When each remote player's spawn protection ends by our own record, their reported shield isn't trusted
+    private projectilesListed: boolean = false; // Whether the first projectile listing arrived, shots in it were fired before we listened
+    private appliedKills: Set<string> = new Set(); // Kill events already applied locally
+    private appliedDamage: Set<string> = new Set(); // Damage events already applied locally
+    private scoreboard: Scoreboard = new Scoreboard(); // Derived from every kill event of the match
+    private kills: KillEventData[] = []; // Every kill event in the room, including ones the match doesn't count
+    private matchManager: MatchManager;
+    private pickupManager: PickupManager;
+    private botManager: BotManager;
+    private hitAuthority: HitAuthority;
     private updateInterval: number = 33; // Changed from 50ms to 33ms (30 FPS) for smoother updates
     private lastUpdateTime: number = 0;
+    private codec: PlayerStateCodec; // Compact encoding of player state
+    private lastSentState: string | null = null; // Last encoded state we published
+    private lastSentTime: number = 0; // When we last published our state
+    private sentRepeat: boolean = false; // Whether the unchanged state was already sent once, so receivers see us stop
+    private clock: ClockSync; // Server time estimate, all network timestamps use it
+    private snapshotBuffers: Map<string, SnapshotBuffer> = new Map(); // Snapshot history per remote player
+    private interpolationSettings: InterpolationSettings = {
+        delay: 100,             // About three updates at the 33ms send rate
+        bufferLength: 20,
+        maxExtrapolation: 250
+    };
+    private readonly HEARTBEAT_INTERVAL: number = 1000; // Republish unchanged state so we don't look stale (ms)
     private cleanupTimer: number = 0;
+    private connected: boolean = true; // Whether the transport is connected, the game pauses while it isn't
+    private hasConnected: boolean = false; // Whether the transport reported a connection yet
+    private unsubscribeConnection: Unsubscribe;
+    private prediction: ClientPrediction | null = null; // Our predicted input, sent to the authority
+    private unsubscribeCorrections: Unsubscribe | null = null;
+    private lastSentSequence: number = 0; // Latest input we published
+    private authorityPresent: boolean = false; // Whether an authority corrected us yet, inputs are only published for one
     
     constructor(
         private scene: Scene,
+        private transport: NetworkTransport,
+        private roomId: string,
         private localPlayer: Player,
-        private planet: Planet,
-        private onOtherPlayerHit: (playerUUID: string) => void
+        private system: StarSystem,
+        matchSettings: MatchSettings,
+        private onKill: (kill: KillEventData) => void
     ) {
         this.playerUUID = this.localPlayer.getUUID();
+        this.codec = new PlayerStateCodec(this.system);
+        this.hitAuthority = new HitAuthority(this.system);
+        this.clock = new ClockSync(this.transport);
+        
+        // Namespace all match data under the room
+        const roomPath = RoomManager.getRoomPath(this.roomId);
+        this.playersPath = `${roomPath}/players`;
+        this.projectilesPath = `${roomPath}/projectiles`;
+        this.deathEffectsPath = `${roomPath}/deathEffects`;
+        this.hitClaimsPath = `${roomPath}/hitClaims`;
+        this.killsPath = `${roomPath}/kills`;
+        this.damagePath = `${roomPath}/damage`;
+        this.hostPath = `${roomPath}/host`;
+        this.matchPath = `${roomPath}/match`;
+        this.pickupsPath = `${roomPath}/pickups`;
+        this.botsPath = `${roomPath}/bots`;
+        this.inputsPath = `${roomPath}/inputs`;
+        this.correctionsPath = `${roomPath}/corrections`;
+        
+        // Compete for the host role, the host validates hits and cleans up stale data
+        this.hostElection = new HostElection(
+            this.transport,
+            this.hostPath,
+            this.playerUUID,
+            this.clock,
+            (isHost) => this.handleHostChanged(isHost)
+        );
+        
+        // Follow the match, the host runs its phases and scores
+        this.matchManager = new MatchManager(
+            this.scene,
+            this.transport,
+            this.matchPath,
+            this.killsPath,
+            matchSettings,
+            this.clock,
+            this.system.getMainBody(),
+            {
+                isHost: () => this.isHost,
+                getPlayerUUIDs: () => this.getPlayerUUIDs(),
+                getPlayerPosition: (uuid) => this.getPlayerPosition(uuid),
+                getPlayerBody: (uuid) => this.getPlayerBody(uuid),
+                getScoreboard: () => this.scoreboard
+            },
+            () => this.rebuildScoreboard()
+        );
+        
+        // Place the pickups on every body, whoever takes one first gets it
+        this.pickupManager = new PickupManager(
+            this.scene,
+            this.transport,
+            this.pickupsPath,
+            this.localPlayer,
+            this.clock,
+            this.system,
+            {
+                isHost: () => this.isHost,
+                healPlayer: (uuid, amount, sourceId) => this.publishHealing(uuid, amount, sourceId)
+            }
+        );
+        
+        // The host runs the room's bots, everyone else sees them as regular players
+        this.botManager = new BotManager(
+            this.scene,
+            this.transport,
+            this.botsPath,
+            this.playersPath,
+            this.system,
+            this.clock,
+            this.codec,
+            {
+                isHost: () => this.isHost,
+                getPlayerUUIDs: () => this.getPlayerUUIDs(),
+                getPlayerPosition: (uuid) => this.getPlayerPosition(uuid),
+                areTeammates: (uuidA, uuidB) => this.matchManager.areTeammates(uuidA, uuidB),
+                getProjectiles: () => this.localPlayer.getProjectiles().concat(Array.from(this.otherProjectiles.values())),
+                getObjective: () => this.getObjective(),
+                setupBot: (player) => player.setMultiplayerManager(this),
+                getSpawnThreats: (uuid) => this.getSpawnThreats(uuid),
+                recordState: (uuid, position, timestamp, shielded) => this.hitAuthority.recordPlayerState(uuid, position, timestamp, shielded)
+            }
+        );
         
         // Listen for other players
         this.setupPlayerListeners();
@@ -57,72 +246,314 @@ export class MultiplayerManager {
         // Listen for death effects
         this.setupDeathEffectListeners();
         
+        // Listen for hit claims (only processed while we are the host)
+        this.setupHitClaimListeners();
+        
+        // Listen for confirmed damage and kills
+        this.setupDamageListeners();
+        this.setupKillListeners();
+        
         // Set cleanup timer for stale data
         this.cleanupTimer = window.setInterval(() => this.cleanupStaleData(), 10000);
         
         // Register our player and handle disconnect
         this.registerPlayer();
         
-        console.log("Multiplayer manager initialized with UUID:", this.playerUUID);
+        // Start the election once we are registered
+        this.hostElection.start();
+        this.matchManager.start();
+        this.pickupManager.start();
+        this.botManager.start();
+        
+        // Pause while the connection is down and rejoin as the same player when it returns
+        this.unsubscribeConnection = this.transport.onConnectionChange((connected) => this.handleConnectionChange(connected));
+        
+        console.log("Multiplayer manager initialized with UUID:", this.playerUUID, "in room:", this.roomId);
     }
     
     /**
-     * Registers the local player to Firebase and sets up disconnect handler
+     * Registers the local player with the transport and sets up disconnect handler
      */
     private registerPlayer(): void {
-        const playerRef = ref(database, `players/${this.playerUUID}`);
-        
         // Set initial player data
         this.updatePlayerData();
         
         // Set up disconnect handler to remove player when they leave
-        onDisconnect(playerRef).remove();
+        this.transport.onDisconnect(`${this.playersPath}/${this.playerUUID}`);
+        this.transport.onDisconnect(`${this.inputsPath}/${this.playerUUID}`);
+    }
+    
+    /**
+     * Connects the local player's prediction: the authority's corrections are passed back
+     * to it, and once an authority wrote the first one our inputs are published for it.
+     * Browser hosts don't correct players, so without a server nothing is published.
+     * @param prediction Prediction of the local player
+     */
+    public setPrediction(prediction: ClientPrediction): void {
+        if (this.unsubscribeCorrections) {
+            this.unsubscribeCorrections();
+        }
+        this.prediction = prediction;
+        this.authorityPresent = false;
+        this.unsubscribeCorrections = this.transport.subscribe(`${this.correctionsPath}/${this.playerUUID}`,
+            (correction: InputCorrection | null) => {
+                if (!correction) return;
+                this.authorityPresent = true;
+                prediction.receiveCorrection(correction);
+            });
+    }
+    
+    /**
+     * Tracks the connection state and restores our presence in the room after a reconnect
+     */
+    private handleConnectionChange(connected: boolean): void {
+        // Firebase reports false before its first connection, only losing a connection we had counts
+        if (!this.hasConnected) {
+            this.hasConnected = connected;
+            return;
+        }
+        if (connected === this.connected) return;
+        this.connected = connected;
+        
+        if (!connected) {
+            console.warn("Connection lost, waiting to reconnect");
+            return;
+        }
+        
+        console.log("Reconnected, rejoining room:", this.roomId);
+        
+        // The server removed our player node when the socket dropped. Publish our full state
+        // right away under the same ID, which restores our room membership, and re-arm the handler.
+        this.lastSentState = null;
+        this.lastUpdateTime = 0;
+        this.registerPlayer();
+        
+        // Re-arm or reclaim the host lease
+        this.hostElection.resume();
+        
+        // Snapshots from before the gap can't be interpolated across, start the timelines over
+        this.snapshotBuffers.forEach(buffer => buffer.clear());
+        
+        // Catch up on players that joined or left meanwhile, reusing existing Player instances
+        this.transport.read(this.playersPath).then((players) => this.syncPlayers(players)).catch(error => console.warn("Failed to resync players:", error));
+    }
+    
+    /**
+     * Returns the health model of a player in the room, if we know them
+     * @param uuid The player's ID
+     */
+    private getHealthModel(uuid: string): HealthModel | null {
+        if (uuid === this.playerUUID) {
+            return this.localPlayer.getHealthModel();
+        }
+        const player = this.otherPlayers.get(uuid);
+        return player ? player.getHealthModel() : this.botManager.getHealthModel(uuid);
+    }
+    
+    /**
+     * Returns the estimated server time, used to evaluate health regeneration
+     */
+    public getServerTime(): number {
+        return this.clock.now();
+    }
+    
+    /**
+     * Returns whether the transport is connected. The game is paused while it isn't.
+     */
+    public isConnected(): boolean {
+        return this.connected;
+    }
+    
+    /**
+     * Takes over or drops host-only duties when the election result changes
+     */
+    private handleHostChanged(isHost: boolean): void {
+        this.isHost = isHost;
+        
+        if (isHost) {
+            // Pick up claims the previous host left unprocessed
+            this.transport.read(this.hitClaimsPath).then((claims) => this.processHitClaims(claims)).catch(error => console.warn("Failed to read hit claims:", error));
+        }
+    }
+    
+    /**
+     * Returns whether this client currently holds the host role
+     */
+    public isHostClient(): boolean {
+        return this.isHost;
+    }
+    
+    /**
+     * Returns the match scoreboard, kept in sync with the room's kill events
+     */
+    public getScoreboard(): Scoreboard {
+        return this.scoreboard;
+    }
+    
+    /**
+     * Returns the room's match, with its mode, phase and standings
+     */
+    public getMatchManager(): MatchManager {
+        return this.matchManager;
+    }
+    
+    /**
+     * Returns the pickups of the star system
+     */
+    public getPickupManager(): PickupManager {
+        return this.pickupManager;
+    }
+    
+    /**
+     * Returns the room's bots, run by the host
+     */
+    public getBotManager(): BotManager {
+        return this.botManager;
+    }
+    
+    /**
+     * Returns whether a player is simulated on this client: the local player or one of our bots
+     */
+    private isLocallyControlled(uuid: string): boolean {
+        return uuid === this.playerUUID || this.botManager.isLocalBot(uuid);
+    }
+    
+    /**
+     * Returns the current position of a player in the room, if we know them
+     */
+    private getPlayerPosition(uuid: string): Vector3 | null {
+        const player = uuid === this.playerUUID ? this.localPlayer : this.otherPlayers.get(uuid) || this.botManager.getBotPlayer(uuid);
+        return player ? player.getMesh().position : null;
+    }
+    
+    /**
+     * Returns the body a player is on, remote players are assigned by their rendered position
+     */
+    private getPlayerBody(uuid: string): Planet | null {
+        if (uuid === this.playerUUID) return this.localPlayer.getPlanet();
+        const bot = this.botManager.getBotPlayer(uuid);
+        if (bot) return bot.getPlanet();
+        const player = this.otherPlayers.get(uuid);
+        return player ? this.system.getDominantBody(player.getMesh().position) : null;
+    }
+    
+    /**
+     * Returns the point the match is fought over: the capture zone on the main planet's
+     * surface in king of the hill, none in the other modes
+     */
+    private getObjective(): Vector3 | null {
+        const state = this.matchManager.getState();
+        if (this.matchManager.getSettings().mode !== 'koth' || !state || !state.zone) return null;
+        
+        const body = this.system.getMainBody();
+        const direction = new Vector3(state.zone.x, state.zone.y, state.zone.z).normalize();
+        return body.getCenter().add(direction.scale(body.getSurfaceRadius(direction)));
+    }
+    
+    /**
+     * Returns the enemies and projectiles a respawning player should be kept away from
+     * @param uuid The player who respawns
+     */
+    private getSpawnThreats(uuid: string): SpawnThreats {
+        const enemies: Vector3[] = [];
+        this.getPlayerUUIDs().forEach(other => {
+            if (other === uuid || this.matchManager.areTeammates(uuid, other)) return;
+            const position = this.getPlayerPosition(other);
+            if (position) {
+                enemies.push(position);
+            }
+        });
+        
+        const projectiles = this.localPlayer.getProjectiles()
+            .concat(Array.from(this.otherProjectiles.values()), this.botManager.getProjectiles())
+            .filter(projectile => projectile.isInFlight() && projectile.getOwnerUUID() !== uuid)
+            .map(projectile => projectile.getPosition());
+        
+        return { enemies, projectiles };
+    }
+    
+    /**
+     * Recomputes scores from the kills that count towards the current match
+     */
+    private rebuildScoreboard(): void {
+        this.scoreboard.rebuild(this.kills.filter(kill => this.matchManager.isCounted(kill.timestamp)));
+    }
+    
+    /**
+     * Returns the IDs of everyone in the room, including the local player and our bots
+     */
+    public getPlayerUUIDs(): string[] {
+        return [this.playerUUID, ...Array.from(this.otherPlayers.keys()), ...this.botManager.getBotUUIDs()];
     }
     
     /**
      * Sets up listeners for other players joining and leaving
      */
     private setupPlayerListeners(): void {
-        onValue(this.playersRef, (snapshot) => {
-            if (!snapshot.exists()) return;
+        this.transport.subscribe(this.playersPath, (players) => this.syncPlayers(players));
+    }
+    
+    /**
+     * Creates, updates and removes remote players to match the players stored in the room
+     * @param players Encoded player states keyed by player ID
+     */
+    private syncPlayers(players: {[uuid: string]: EncodedPlayerData} | null): void {
+        // An empty room still needs the departure check below
+        const entries = players || {};
+        
+        const currentTime = this.clock.now();
+        
+        // Process each player in the database
+        Object.entries(entries).forEach(([uuid, encodedData]: [string, any]) => {
+            // Skip our own player and bots
+            if (this.isLocallyControlled(uuid)) return;
             
-            const players = snapshot.val();
-            const currentTime = Date.now();
+            // Unpack the compact state, ignoring entries in an unknown format
+            const playerData = this.codec.decode(encodedData);
+            if (!playerData) return;
             
-            // Process each player in the database
-            Object.entries(players).forEach(([uuid, playerData]: [string, any]) => {
-                // Skip our own player
-                if (uuid === this.playerUUID) return;
-                
-                // Check if player data is stale (more than 10 seconds old)
-                if (currentTime - playerData.lastUpdate > 10000) {
-                    console.log("Skipping stale player data:", uuid);
-                    return;
-                }
-                
-                // Create or update other player
-                if (!this.otherPlayers.has(uuid)) {
-                    // Create new remote player
-                    console.log("New player joined:", uuid);
-                    const remotePlayer = new Player(this.scene, this.planet);
-                    remotePlayer.setDebugCubeVisibility(false);
-                    remotePlayer.setAsRemotePlayer();
-                    this.otherPlayers.set(uuid, remotePlayer);
-                }
+            // Check if player data is stale (more than 10 seconds old)
+            if (currentTime - playerData.lastUpdate > 10000) {
+                console.log("Skipping stale player data:", uuid);
+                return;
+            }
+            
+            // Create or update other player
+            if (!this.otherPlayers.has(uuid)) {
+                // Create new remote player
+                console.log("New player joined:", uuid);
+                const remotePlayer = new Player(this.scene, this.system, uuid); // Same ID as on the network, hits report it
+                remotePlayer.setDebugCubeVisibility(false);
+                remotePlayer.setAsRemotePlayer();
+                this.otherPlayers.set(uuid, remotePlayer);
                 
-                // Update remote player position and state
-                const remotePlayer = this.otherPlayers.get(uuid)!;
-                this.updateRemotePlayer(remotePlayer, playerData);
-            });
+                // Players join with a fresh spawn
+                this.spawnProtection.set(uuid, currentTime + Player.SPAWN_PROTECTION_TIME);
+            }
             
-            // Check for players that have left
-            this.otherPlayers.forEach((player, uuid) => {
-                if (!players[uuid]) {
-                    console.log("Player left:", uuid);
-                    player.dispose();
-                    this.otherPlayers.delete(uuid);
-                }
-            });
+            // Buffer the snapshot, remote players are rendered from it every frame
+            this.addRemoteSnapshot(uuid, playerData);
+            
+            // Remember where the player was for lag compensated hit validation
+            this.hitAuthority.recordPlayerState(
+                uuid,
+                new Vector3(playerData.position.x, playerData.position.y, playerData.position.z),
+                playerData.lastUpdate,
+                playerData.lastUpdate < (this.spawnProtection.get(uuid) || 0)
+            );
+        });
+        
+        // Check for players that have left
+        this.otherPlayers.forEach((player, uuid) => {
+            if (!entries[uuid]) {
+                console.log("Player left:", uuid);
+                player.dispose();
+                this.otherPlayers.delete(uuid);
+                this.snapshotBuffers.delete(uuid);
+                this.remoteWeaponStates.delete(uuid);
+                this.spawnProtection.delete(uuid);
+                this.hitAuthority.removePlayer(uuid);
+            }
         });
     }
     
@@ -130,16 +561,46 @@ export class MultiplayerManager {
      * Sets up listeners for projectiles
      */
     private setupProjectileListeners(): void {
-        onValue(this.projectilesRef, (snapshot) => {
-            if (!snapshot.exists()) return;
+        this.transport.subscribe(this.projectilesPath, (projectiles) => {
+            const checkShots = this.projectilesListed;
+            this.projectilesListed = true;
+            if (!projectiles) return;
             
-            const projectiles = snapshot.val();
-            const currentTime = Date.now();
+            const currentTime = this.clock.now();
+            
+            // Check new projectiles against their weapon's limits, in the order they were fired
+            Object.entries(projectiles)
+                .filter(([id]) => !this.projectileRecords.has(id) && !this.rejectedProjectiles.has(id))
+                .sort(([, a]: [string, any], [, b]: [string, any]) => a.createdAt - b.createdAt)
+                .forEach(([id, projData]: [string, any]) => {
+                    if (checkShots && !this.isLocallyControlled(projData.ownerUUID) && !this.acceptRemoteShot(projData, currentTime)) {
+                        console.warn("Rejected projectile fired too fast by:", projData.ownerUUID);
+                        this.rejectedProjectiles.add(id);
+                        
+                        // The host removes it for everyone
+                        if (this.isHost) {
+                            this.transport.remove(`${this.projectilesPath}/${id}`).catch(error => console.warn("Failed to remove rejected projectile:", error));
+                        }
+                        return;
+                    }
+                    
+                    // Keep a record of every accepted projectile so the host can validate hits
+                    this.projectileRecords.set(id, projData);
+                    
+                    // Shooting ends spawn protection, at the latest when we see the shot
+                    const protectedUntil = this.spawnProtection.get(projData.ownerUUID);
+                    if (protectedUntil !== undefined) {
+                        this.spawnProtection.set(projData.ownerUUID, Math.min(protectedUntil, projData.createdAt, currentTime));
+                    }
+                });
             
             // Process each projectile in the database
             Object.entries(projectiles).forEach(([id, projData]: [string, any]) => {
-                // Skip projectiles that we own
-                if (projData.ownerUUID === this.playerUUID) return;
+                // Skip rejected projectiles, and the ones that already hit or expired here
+                if (this.rejectedProjectiles.has(id) || this.finishedProjectiles.has(id)) return;
+                
+                // Skip projectiles that we or our bots own
+                if (this.isLocallyControlled(projData.ownerUUID)) return;
                 
                 // Skip projectiles that are too old (more than 2 seconds)
                 if (currentTime - projData.createdAt > 2000) return;
@@ -169,17 +630,16 @@ export class MultiplayerManager {
                             if (target === this.localPlayer.getMesh()) {
                                 console.log("We were hit by a projectile from:", projData.ownerUUID);
                                 
-                                // Create death effect at our position
-                                this.createDeathEffect(this.localPlayer.getMesh().position.clone());
-                                
-                                // Notify game that we were hit
-                                this.onOtherPlayerHit(projData.ownerUUID);
-                                
-                                // Our local player should respawn
-                                this.localPlayer.respawn();
+                                // Ask the authority to confirm the hit, we respawn once the kill is published
+                                this.reportHit(id, projData.ownerUUID, this.playerUUID);
+                            } else if (target.metadata && this.botManager.isLocalBot(target.metadata.playerUUID)) {
+                                // Our bots report the hits they take, like we do
+                                this.reportHit(id, projData.ownerUUID, target.metadata.playerUUID);
                             }
                         },
-                        projData.ownerUUID
+                        projData.ownerUUID,
+                        WeaponRegistry.get(projData.weaponId), // Render the shooter's weapon
+                        this.system
                     );
                     
                     this.otherProjectiles.set(id, proj);
@@ -193,18 +653,54 @@ export class MultiplayerManager {
                     this.otherProjectiles.delete(id);
                 }
             });
+            this.rejectedProjectiles.forEach(id => {
+                if (!projectiles[id]) {
+                    this.rejectedProjectiles.delete(id);
+                }
+            });
+            this.finishedProjectiles.forEach(id => {
+                if (!projectiles[id]) {
+                    this.finishedProjectiles.delete(id);
+                }
+            });
         });
     }
     
+    /**
+     * Replays a remote shot through the owner's weapon state, rejecting shots that break
+     * the weapon's fire rate, magazine or heat limits. The owner reports when it fired, so
+     * the claim only counts within MAX_SHOT_DELAY of when we received the shot; a burst sent
+     * at once can't pass for shots spread out in time.
+     * @param projectile The incoming projectile
+     * @param receivedAt When the projectile reached us
+     * @returns True if the shot is allowed
+     */
+    private acceptRemoteShot(projectile: ProjectileData, receivedAt: number): boolean {
+        let states = this.remoteWeaponStates.get(projectile.ownerUUID);
+        if (!states) {
+            states = new Map();
+            this.remoteWeaponStates.set(projectile.ownerUUID, states);
+        }
+        
+        let state = states.get(projectile.weaponId);
+        if (!state) {
+            // We don't see remote reloads, so assume one whenever there was time for it
+            state = new WeaponState(WeaponRegistry.get(projectile.weaponId), this.SHOT_TOLERANCE, true);
+            states.set(projectile.weaponId, state);
+        }
+        
+        const firedAt = Math.min(receivedAt, Math.max(projectile.createdAt, receivedAt - this.MAX_SHOT_DELAY));
+        return state.fire(firedAt);
+    }
+    
     /**
      * Sets up listeners for death effects
      */
     private setupDeathEffectListeners(): void {
-        onValue(this.deathEffectsRef, (snapshot) => {
-            if (!snapshot.exists()) return;
+        this.transport.subscribe(this.deathEffectsPath, (effects) => {
+            if (!effects) return;
             
-            const effects = snapshot.val();
-            const currentTime = Date.now();
+            const currentTime = this.clock.now();
             
             // Process each death effect in the database
             Object.entries(effects).forEach(([id, effectData]: [string, any]) => {
@@ -227,10 +723,237 @@ export class MultiplayerManager {
     }
     
     /**
-     * Updates the local player's data in Firebase
+     * Sets up listeners for hit claims. Only the host validates them and publishes damage.
+     */
+    private setupHitClaimListeners(): void {
+        this.transport.subscribe(this.hitClaimsPath, (claims) => this.processHitClaims(claims));
+    }
+    
+    /**
+     * Validates pending hit claims and publishes damage (host only)
+     */
+    private processHitClaims(claims: {[id: string]: HitClaimData} | null): void {
+        if (!claims || !this.isHost) return;
+        
+        const currentTime = this.clock.now();
+        
+        Object.entries(claims).forEach(([id, claim]: [string, any]) => {
+            const projectile = this.projectileRecords.get(claim.projectileId);
+            
+            // Wait for the projectile data to arrive, unless the claim is already too old
+            if (!projectile && currentTime - claim.hitTime < 2000) return;
+            
+            // Confirm the hit against lag compensated positions
+            if (projectile && this.hitAuthority.validateHit(claim, projectile)) {
+                this.publishDamage(claim, projectile);
+            }
+            
+            // Each claim is only processed once
+            this.transport.remove(`${this.hitClaimsPath}/${id}`).catch(error => console.warn("Failed to remove hit claim:", error));
+        });
+    }
+    
+    /**
+     * Sets up listeners for damage events published by the host
+     */
+    private setupDamageListeners(): void {
+        this.transport.subscribe(this.damagePath, (events) => {
+            if (!events) return;
+            
+            // Apply in the order the host confirmed them
+            const ordered = (Object.values(events) as DamageEventData[]).sort((a, b) => a.timestamp - b.timestamp);
+            
+            ordered.forEach(damage => {
+                if (this.appliedDamage.has(damage.id)) return;
+                
+                // A projectile can only hit once, even if the host changes
+                this.hitAuthority.markProcessed(damage.projectileId, damage.victimUUID, damage.weapon);
+                
+                // Retry on the next change if the victim's player hasn't arrived yet
+                const healthModel = this.getHealthModel(damage.victimUUID);
+                if (!healthModel) return;
+                
+                healthModel.setState({ health: damage.health, armor: damage.armor }, damage.timestamp);
+                this.appliedDamage.add(damage.id);
+            });
+        });
+    }
+    
+    /**
+     * Sets up listeners for kill events published by the host
+     */
+    private setupKillListeners(): void {
+        this.transport.subscribe(this.killsPath, (kills) => {
+            // Scores are recomputed from the full event list, so every client agrees
+            this.kills = kills ? Object.values(kills) : [];
+            this.rebuildScoreboard();
+            if (!kills) return;
+            
+            const currentTime = this.clock.now();
+            
+            Object.entries(kills).forEach(([id, kill]: [string, any]) => {
+                // Apply each kill once, ignoring old kills published before we joined
+                if (this.appliedKills.has(id)) return;
+                this.appliedKills.add(id);
+                
+                // A projectile can only kill once, even if the host changes
+                this.hitAuthority.markProcessed(kill.projectileId, kill.victimUUID, kill.weapon);
+                
+                // The victim respawns with full health, protected from the moment of the kill
+                const healthModel = this.getHealthModel(kill.victimUUID);
+                if (healthModel) {
+                    healthModel.reset(kill.timestamp);
+                }
+                const protectedUntil = this.spawnProtection.get(kill.victimUUID);
+                if (protectedUntil !== undefined) {
+                    this.spawnProtection.set(kill.victimUUID, Math.max(protectedUntil, kill.timestamp + Player.SPAWN_PROTECTION_TIME));
+                }
+                if (currentTime - kill.timestamp > 5000) return;
+                
+                // Our local player died, respawn
+                if (kill.victimUUID === this.playerUUID) {
+                    console.log("We were killed by:", kill.killerUUID);
+                    this.localPlayer.respawn(this.getSpawnThreats(this.playerUUID));
+                }
+                
+                // Our bots respawn the same way
+                this.botManager.handleKilled(kill.victimUUID);
+                
+                // The victim teleports to a new spawn point, don't interpolate across the planet
+                const victimBuffer = this.snapshotBuffers.get(kill.victimUUID);
+                if (victimBuffer) {
+                    victimBuffer.clear();
+                }
+                
+                this.onKill(kill);
+            });
+        });
+    }
+    
+    /**
+     * Reports a projectile hit to the authority for validation
+     * @param projectileId The projectile that hit
+     * @param shooterUUID The player who fired the projectile
+     * @param victimUUID The player who was hit
+     */
+    public reportHit(projectileId: string, shooterUUID: string, victimUUID: string): void {
+        const claimId = this.transport.push(this.hitClaimsPath);
+        
+        const claimData: HitClaimData = {
+            id: claimId,
+            projectileId,
+            shooterUUID,
+            victimUUID,
+            reporterUUID: this.playerUUID,
+            hitTime: this.clock.now()
+        };
+        
+        this.transport.write(`${this.hitClaimsPath}/${claimId}`, claimData).catch(error => console.warn("Failed to report hit:", error));
+    }
+    
+    /**
+     * Applies a confirmed hit to the victim and publishes the damage, followed by a kill
+     * when the victim has no health left (host only)
+     */
+    private publishDamage(claim: HitClaimData, projectile: ProjectileData): void {
+        const healthModel = this.getHealthModel(claim.victimUUID);
+        
+        // Dead players can't take more damage until they respawn
+        if (!healthModel || healthModel.isDead()) return;
+        
+        // No friendly fire in team modes
+        if (this.matchManager.areTeammates(claim.shooterUUID, claim.victimUUID)) return;
+        
+        const weapon = WeaponRegistry.get(projectile.weaponId);
+        const timestamp = this.clock.now();
+        const state = healthModel.computeDamage(weapon.damage, timestamp);
+        
+        // Apply right away so further claims in this batch see the new health
+        healthModel.setState(state, timestamp);
+        
+        const damageId = this.transport.push(this.damagePath);
+        const damageData: DamageEventData = {
+            id: damageId,
+            attackerUUID: claim.shooterUUID,
+            victimUUID: claim.victimUUID,
+            projectileId: claim.projectileId,
+            weapon: weapon.id,
+            amount: weapon.damage,
+            health: state.health,
+            armor: state.armor,
+            timestamp
+        };
+        this.transport.write(`${this.damagePath}/${damageId}`, damageData).catch(error => console.warn("Failed to publish damage:", error));
+        
+        // Death happens only at zero health
+        if (state.health <= 0) {
+            this.publishKill(claim, weapon.id);
+        }
+    }
+    
+    /**
+     * Restores a player's health from a health pack and publishes it like damage (host only)
+     * @param uuid The player who took the health pack
+     * @param amount Health restored
+     * @param sourceId Pickup claim, used as the event's projectile ID
+     */
+    private publishHealing(uuid: string, amount: number, sourceId: string): void {
+        const healthModel = this.getHealthModel(uuid);
+        if (!healthModel || healthModel.isDead()) return;
+        
+        const timestamp = this.clock.now();
+        const state = healthModel.computeHealing(amount, timestamp);
+        healthModel.setState(state, timestamp);
+        
+        const damageId = this.transport.push(this.damagePath);
+        const damageData: DamageEventData = {
+            id: damageId,
+            attackerUUID: uuid,
+            victimUUID: uuid,
+            projectileId: sourceId,
+            weapon: 'healthpack',
+            amount: -amount,
+            health: state.health,
+            armor: state.armor,
+            timestamp
+        };
+        this.transport.write(`${this.damagePath}/${damageId}`, damageData).catch(error => console.warn("Failed to publish damage:", error));
+    }
+    
+    /**
+     * Publishes a confirmed kill and the matching death effect (host only)
+     * @param claim The hit that killed the victim
+     * @param weaponId Weapon that fired the killing projectile
+     */
+    private publishKill(claim: HitClaimData, weaponId: string): void {
+        const killId = this.transport.push(this.killsPath);
+        
+        const killData: KillEventData = {
+            id: killId,
+            killerUUID: claim.shooterUUID,
+            victimUUID: claim.victimUUID,
+            projectileId: claim.projectileId,
+            weapon: weaponId,
+            timestamp: this.clock.now()
+        };
+        
+        this.transport.write(`${this.killsPath}/${killId}`, killData).catch(error => console.warn("Failed to publish kill:", error));
+        
+        // Show the explosion where the victim was hit
+        const victimPosition = this.hitAuthority.getPositionAt(claim.victimUUID, claim.hitTime);
+        if (victimPosition) {
+            this.createDeathEffect(victimPosition);
+        }
+    }
+    
+    /**
+     * Updates the local player's data in the network store
      */
     public updatePlayerData(): void {
-        const currentTime = Date.now();
+        // Don't queue writes while offline, the full state is published again on reconnect
+        if (!this.connected) return;
+        
+        const currentTime = this.clock.now();
         
         // Use a shorter update interval for more frequent position updates
         // This gives remote players more position data points for smoother interpolation
@@ -239,7 +962,6 @@ export class MultiplayerManager {
         this.lastUpdateTime = currentTime;
         
         const playerMesh = this.localPlayer.getMesh();
-        const playerRef = ref(database, `players/${this.playerUUID}`);
         
         // Ensure rotation quaternion exists
         if (!playerMesh.rotationQuaternion) {
@@ -247,7 +969,7 @@ export class MultiplayerManager {
             return;
         }
         
-        // Prepare player data for Firebase
+        // Prepare player data for the network store
         const playerData: PlayerData = {
             position: {
                 x: playerMesh.position.x,
@@ -261,20 +983,53 @@ export class MultiplayerManager {
                 w: playerMesh.rotationQuaternion.w
             },
             isJetpackActive: this.localPlayer.isJetpackActive(),
+            isShielded: this.localPlayer.isSpawnProtected(),
             lastUpdate: currentTime
         };
         
-        // Update Firebase with our latest position and rotation
-        set(playerRef, playerData);
+        // Inputs go out with every update, the authority acknowledges them with corrections
+        this.publishInputs(currentTime);
+        
+        // Track our own position history in case we are the host validating hits on us
+        this.hitAuthority.recordPlayerState(this.playerUUID, playerMesh.position, currentTime, playerData.isShielded);
+        
+        // Only publish when something changed, apart from a periodic heartbeat.
+        // The first unchanged state is still sent once so receivers stop extrapolating our movement.
+        const encodedData: EncodedPlayerData = this.codec.encode(playerData);
+        const unchanged = encodedData.s === this.lastSentState;
+        if (unchanged && this.sentRepeat && currentTime - this.lastSentTime < this.HEARTBEAT_INTERVAL) {
+            return;
+        }
+        this.sentRepeat = unchanged;
+        this.lastSentState = encodedData.s;
+        this.lastSentTime = currentTime;
+        
+        // Publish our latest position and rotation
+        this.transport.write(`${this.playersPath}/${this.playerUUID}`, encodedData).catch(error => console.warn("Failed to publish player state:", error));
+    }
+    
+    /**
+     * Publishes the inputs the authority hasn't acknowledged yet. The most recent ones
+     * are repeated with every update, so a lost update doesn't lose input.
+     */
+    private publishInputs(currentTime: number): void {
+        if (!this.prediction || !this.authorityPresent) return;
+        if (this.prediction.getSequence() === this.lastSentSequence) return;
+        this.lastSentSequence = this.prediction.getSequence();
+        
+        const inputs: EncodedInputs = {
+            c: this.prediction.getUnacknowledged().map(command => ClientPrediction.encode(command)),
+            t: currentTime
+        };
+        this.transport.write(`${this.inputsPath}/${this.playerUUID}`, inputs).catch(error => console.warn("Failed to publish inputs:", error));
     }
     
     /**
-     * Adds a projectile to Firebase
+     * Adds a projectile to the network store
      */
     public addProjectile(projectile: Projectile, position: Vector3, direction: Vector3): string {
         // Create a new unique ID for this projectile
-        const newProjectileRef = push(this.projectilesRef);
-        const projectileId = newProjectileRef.key!;
+        const projectileId = this.transport.push(this.projectilesPath);
         
         // Prepare projectile data
         const projectileData: ProjectileData = {
@@ -289,28 +1044,29 @@ export class MultiplayerManager {
                 y: direction.y,
                 z: direction.z
             },
-            ownerUUID: this.playerUUID,
-            createdAt: Date.now()
+            ownerUUID: projectile.getOwnerUUID(), // The local player or one of our bots
+            weaponId: projectile.getWeapon().id,
+            createdAt: this.clock.now()
         };
         
-        // Add to Firebase
-        set(newProjectileRef, projectileData);
+        // Publish the projectile
+        this.transport.write(`${this.projectilesPath}/${projectileId}`, projectileData).catch(error => console.warn("Failed to publish projectile:", error));
+        this.projectileRecords.set(projectileId, projectileData);
         
         // Set up auto-removal after 2 seconds
         setTimeout(() => {
-            remove(ref(database, `projectiles/${projectileId}`));
+            this.transport.remove(`${this.projectilesPath}/${projectileId}`).catch(error => console.warn("Failed to remove projectile:", error));
         }, 2000);
         
         return projectileId;
     }
     
     /**
-     * Creates a death effect at the given position and syncs to Firebase
+     * Creates a death effect at the given position and syncs it to other clients
      */
     public createDeathEffect(position: Vector3): void {
         // Create a new unique ID for this effect
-        const newEffectRef = push(this.deathEffectsRef);
-        const effectId = newEffectRef.key!;
+        const effectId = this.transport.push(this.deathEffectsPath);
         
         // Prepare effect data
         const effectData: DeathEffectData = {
@@ -320,28 +1076,27 @@ export class MultiplayerManager {
                 y: position.y,
                 z: position.z
             },
-            createdAt: Date.now()
+            createdAt: this.clock.now()
         };
         
-        // Add to Firebase
-        set(newEffectRef, effectData);
+        // Publish the effect
+        this.transport.write(`${this.deathEffectsPath}/${effectId}`, effectData).catch(error => console.warn("Failed to publish death effect:", error));
         
         // Create local effect
         this.createDeathEffectParticles(effectId, position);
         
         // Set up auto-removal after 3 seconds
         setTimeout(() => {
-            remove(ref(database, `deathEffects/${effectId}`));
+            this.transport.remove(`${this.deathEffectsPath}/${effectId}`).catch(error => console.warn("Failed to remove death effect:", error));
         }, 3000);
     }
     
     /**
-     * Creates a death effect particle system
+     * Starts a death effect particle system, taken from the scene's effect pool
      */
     private createDeathEffectParticles(id: string, position: Vector3): void {
-        // Create particle system
-        const particles = new ParticleSystem(`deathEffect_${id}`, 200, this.scene);
-        particles.particleTexture = new Texture("assets/textures/flare.png", this.scene);
+        // Take a particle system from the pool
+        const particles = EffectPool.get(this.scene).acquireParticles("deathEffect", 200);
         
         // Set emitter at death position
         particles.emitter = position;
@@ -376,165 +1131,220 @@ export class MultiplayerManager {
         // Store in our map
         this.deathEffects.set(id, particles);
         
-        // Auto-cleanup after 3 seconds
+        // Stop emitting after 3 seconds, the system returns to the pool once its particles faded
         setTimeout(() => {
-            if (this.deathEffects.has(id)) {
-                this.deathEffects.get(id)!.dispose();
+            if (this.deathEffects.get(id) === particles) {
+                EffectPool.get(this.scene).releaseParticles(particles);
                 this.deathEffects.delete(id);
             }
         }, 3000);
     }
     
     /**
-     * Updates a remote player's position and state based on data from Firebase
+     * Adds a remote player's state to their snapshot buffer
      */
-    private updateRemotePlayer(remotePlayer: Player, playerData: PlayerData): void {
-        // Update position
-        const position = new Vector3(
-            playerData.position.x,
-            playerData.position.y,
-            playerData.position.z
-        );
+    private addRemoteSnapshot(uuid: string, playerData: PlayerData): void {
+        let buffer = this.snapshotBuffers.get(uuid);
+        if (!buffer) {
+            buffer = new SnapshotBuffer(
+                this.interpolationSettings.bufferLength,
+                this.interpolationSettings.maxExtrapolation,
+                (position) => this.system.getDominantBody(position) // Follow the terrain between snapshots
+            );
+            this.snapshotBuffers.set(uuid, buffer);
+        }
         
-        // Update rotation
-        const rotation = {
-            x: playerData.rotation.x,
-            y: playerData.rotation.y,
-            z: playerData.rotation.z,
-            w: playerData.rotation.w
-        };
+        buffer.push({
+            time: playerData.lastUpdate,
+            position: new Vector3(playerData.position.x, playerData.position.y, playerData.position.z),
+            rotation: new Quaternion(playerData.rotation.x, playerData.rotation.y, playerData.rotation.z, playerData.rotation.w),
+            isJetpackActive: playerData.isJetpackActive,
+            isShielded: playerData.isShielded
+        });
+    }
+    
+    /**
+     * Updates a remote player's position and state from their snapshot buffer
+     * @param renderTime Server time to render the player at
+     */
+    private updateRemotePlayer(uuid: string, remotePlayer: Player, renderTime: number): void {
+        const buffer = this.snapshotBuffers.get(uuid);
+        const snapshot = buffer ? buffer.sample(renderTime) : null;
+        if (!snapshot) return;
         
         // Apply updates
-        remotePlayer.setRemotePosition(position);
-        remotePlayer.setRemoteRotation(rotation);
+        remotePlayer.applyRemoteState(snapshot.position, snapshot.rotation);
         
         // Update jetpack state
-        if (playerData.isJetpackActive) {
+        if (snapshot.isJetpackActive) {
             remotePlayer.activateJetpack();
         } else {
             remotePlayer.deactivateJetpack();
         }
+        
+        // Show the spawn shield
+        remotePlayer.setRemoteShield(snapshot.isShielded);
+    }
+    
+    /**
+     * Changes how remote players are interpolated. Buffer settings apply to players who join afterwards.
+     */
+    public setInterpolationSettings(settings: Partial<InterpolationSettings>): void {
+        this.interpolationSettings = { ...this.interpolationSettings, ...settings };
     }
     
     /**
-     * Cleans up stale data from Firebase (old players, projectiles, effects)
+     * Cleans up stale data from the network store (old players, projectiles, effects)
      */
     private cleanupStaleData(): void {
         // Get the current time
-        const currentTime = Date.now();
-        
-        // Only the first player to join becomes the host
-        // The host is responsible for cleaning up stale data
-        if (!this.isHost) {
-            // Check if we should become the host (no other players or we're the oldest)
-            onValue(this.playersRef, (snapshot) => {
-                if (!snapshot.exists()) {
-                    this.isHost = true;
-                    return;
-                }
-                
-                const players = snapshot.val();
-                const playerUUIDs = Object.keys(players);
-                
-                // If we're the only player or the first in the list, become host
-                if (playerUUIDs.length === 1 || playerUUIDs[0] === this.playerUUID) {
-                    this.isHost = true;
-                }
-            }, { onlyOnce: true });
-            
-            // If we're still not host, don't do cleanup
-            if (!this.isHost) return;
-        }
+        const currentTime = this.clock.now();
+        
+        // Every client forgets projectile records that are too old to be claimed
+        this.pruneProjectileRecords(currentTime);
+        
+        // The elected host is responsible for cleaning up stale data
+        if (!this.isHost) return;
         
         // Clean up stale player data (not updated in the last 10 seconds)
-        onValue(this.playersRef, (snapshot) => {
-            if (!snapshot.exists()) return;
+        this.transport.read(this.playersPath).then((entries) => {
+            if (!entries) return;
             
             const updates: {[key: string]: any} = {};
             let hasUpdates = false;
             
             // Check each player
-            snapshot.forEach((childSnapshot: DataSnapshot) => {
-                const playerData = childSnapshot.val();
-                const playerId = childSnapshot.key!;
-                
-                if (currentTime - playerData.lastUpdate > 10000) {
+            Object.entries(entries).forEach(([playerId, playerData]: [string, any]) => {
+                if (currentTime - playerData.t > 10000) {
                     updates[playerId] = null; // Mark for removal
                     hasUpdates = true;
                     console.log("Cleaning up stale player:", playerId);
                 }
-                
-                return false; // Don't cancel enumeration
             });
             
             // Apply updates if needed
             if (hasUpdates) {
-                update(this.playersRef, updates);
+                return this.transport.update(this.playersPath, updates);
             }
-        }, { onlyOnce: true });
+        }).catch(error => console.warn("Failed to clean up stale players:", error));
         
         // Clean up old projectiles (created more than 2 seconds ago)
-        onValue(this.projectilesRef, (snapshot) => {
-            if (!snapshot.exists()) return;
+        this.transport.read(this.projectilesPath).then((entries) => {
+            if (!entries) return;
             
             const updates: {[key: string]: any} = {};
             let hasUpdates = false;
             
             // Check each projectile
-            snapshot.forEach((childSnapshot: DataSnapshot) => {
-                const projectileData = childSnapshot.val();
-                const projectileId = childSnapshot.key!;
-                
+            Object.entries(entries).forEach(([projectileId, projectileData]: [string, any]) => {
                 if (currentTime - projectileData.createdAt > 2000) {
                     updates[projectileId] = null; // Mark for removal
                     hasUpdates = true;
                 }
-                
-                return false; // Don't cancel enumeration
             });
             
             // Apply updates if needed
             if (hasUpdates) {
-                update(this.projectilesRef, updates);
+                return this.transport.update(this.projectilesPath, updates);
             }
-        }, { onlyOnce: true });
+        }).catch(error => console.warn("Failed to clean up old projectiles:", error));
+        
+        // Clean up unprocessed hit claims. Kill events are kept for the whole match,
+        // the scoreboard is derived from them, and go away with the room.
+        this.cleanupOldEntries(this.hitClaimsPath, 'hitTime', 3000, currentTime);
+        
+        // Damage events are kept until the victim would have fully regenerated, so players
+        // joining late still see the right health
+        const regenDuration = HealthModel.REGEN_DELAY + HealthModel.MAX_HEALTH / HealthModel.REGEN_RATE * 1000;
+        this.cleanupOldEntries(this.damagePath, 'timestamp', regenDuration + 1000, currentTime);
         
         // Clean up old death effects (created more than 3 seconds ago)
-        onValue(this.deathEffectsRef, (snapshot) => {
-            if (!snapshot.exists()) return;
+        this.transport.read(this.deathEffectsPath).then((entries) => {
+            if (!entries) return;
             
             const updates: {[key: string]: any} = {};
             let hasUpdates = false;
             
             // Check each death effect
-            snapshot.forEach((childSnapshot: DataSnapshot) => {
-                const effectData = childSnapshot.val();
-                const effectId = childSnapshot.key!;
-                
+            Object.entries(entries).forEach(([effectId, effectData]: [string, any]) => {
                 if (currentTime - effectData.createdAt > 3000) {
                     updates[effectId] = null; // Mark for removal
                     hasUpdates = true;
                 }
-                
-                return false; // Don't cancel enumeration
             });
             
             // Apply updates if needed
             if (hasUpdates) {
-                update(this.deathEffectsRef, updates);
+                return this.transport.update(this.deathEffectsPath, updates);
+            }
+        }).catch(error => console.warn("Failed to clean up old death effects:", error));
+    }
+    
+    /**
+     * Removes entries whose timestamp field is older than the given age (host only)
+     * @param path Collection to clean
+     * @param timeField Name of the timestamp field on each entry
+     * @param maxAge Maximum age in milliseconds
+     * @param currentTime Current time in milliseconds
+     */
+    private cleanupOldEntries(path: string, timeField: string, maxAge: number, currentTime: number): void {
+        this.transport.read(path).then((entries) => {
+            if (!entries) return;
+            
+            const updates: {[key: string]: any} = {};
+            let hasUpdates = false;
+            
+            Object.entries(entries).forEach(([id, entry]: [string, any]) => {
+                if (currentTime - entry[timeField] > maxAge) {
+                    updates[id] = null; // Mark for removal
+                    hasUpdates = true;
+                }
+            });
+            
+            // Apply updates if needed
+            if (hasUpdates) {
+                return this.transport.update(path, updates);
+            }
+        }).catch(error => console.warn("Failed to clean up old entries:", error));
+    }
+    
+    /**
+     * Forgets local projectile records that can no longer be claimed
+     */
+    private pruneProjectileRecords(currentTime: number): void {
+        this.projectileRecords.forEach((projectile, id) => {
+            if (currentTime - projectile.createdAt > 5000) {
+                this.projectileRecords.delete(id);
             }
-        }, { onlyOnce: true });
+        });
+        this.hitAuthority.prune();
     }
     
     /**
-     * Disposes resources and removes player from Firebase when leaving
+     * Disposes resources and removes player from the network store when leaving
      */
     public dispose(): void {
         // Clear the cleanup timer
         clearInterval(this.cleanupTimer);
         
-        // Remove player from Firebase
-        remove(ref(database, `players/${this.playerUUID}`));
+        // Hand the host role over to the remaining players
+        this.hostElection.release();
+        
+        // Stop following the match and remove the pickups
+        this.matchManager.dispose();
+        this.pickupManager.dispose();
+        this.botManager.dispose();
+        
+        // Stop tracking the server clock and connection
+        this.clock.dispose();
+        this.unsubscribeConnection();
+        
+        // Remove player from the network store
+        this.transport.remove(`${this.playersPath}/${this.playerUUID}`).catch(error => console.warn("Failed to remove player:", error));
+        this.transport.remove(`${this.inputsPath}/${this.playerUUID}`).catch(error => console.warn("Failed to remove inputs:", error));
+        if (this.unsubscribeCorrections) {
+            this.unsubscribeCorrections();
+        }
         
         // Clean up other players
         this.otherPlayers.forEach(player => player.dispose());
@@ -543,9 +1353,11 @@ export class MultiplayerManager {
         // Clean up projectiles
         this.otherProjectiles.forEach(proj => proj.dispose());
         this.otherProjectiles.clear();
+        this.finishedProjectiles.clear();
         
-        // Clean up death effects
-        this.deathEffects.forEach(effect => effect.dispose());
+        // Stop death effects, they go back to the pool once faded
+        const effectPool = EffectPool.get(this.scene);
+        this.deathEffects.forEach(effect => effectPool.releaseParticles(effect));
         this.deathEffects.clear();
     }
 
@@ -554,22 +1366,62 @@ export class MultiplayerManager {
      * @param deltaTime Time since last frame for smooth interpolation
      */
     public updateRemotePlayers(deltaTime: number): void {
+        // Remote state is frozen until the connection comes back
+        if (!this.connected) return;
+        
+        // Animate pickups and take the ones we touch
+        this.pickupManager.update();
+        
+        // Render remote players a fixed delay in the past so snapshots can be interpolated
+        const renderTime = this.clock.now() - this.interpolationSettings.delay;
+        
         // Update each remote player
-        this.otherPlayers.forEach((player) => {
+        this.otherPlayers.forEach((player, uuid) => {
+            this.updateRemotePlayer(uuid, player, renderTime);
             player.update(deltaTime);
         });
+    }
+    
+    /**
+     * Advances the simulation of the bots and remote projectiles by one tick
+     * @param deltaTime Tick duration in seconds
+     */
+    public tick(deltaTime: number): void {
+        // Remote state is frozen until the connection comes back
+        if (!this.connected) return;
+        
+        // Move the bots if we are the host
+        this.botManager.update(deltaTime);
         
         // Update remote projectiles and remove destroyed ones
         this.otherProjectiles.forEach((projectile, id) => {
             // If projectile returns false, it should be destroyed
-            if (!projectile.update()) {
+            if (!projectile.update(deltaTime)) {
                 projectile.dispose();
-                // this.otherProjectiles.delete(id); // TODO is this necessary?
-                // Also remove from Firebase if we're the host
+                // Forget it, without recreating it while it is still listed
+                this.otherProjectiles.delete(id);
+                this.finishedProjectiles.add(id);
+                // Also remove from the network store if we're the host
                 if (this.isHost) {
-                    remove(ref(database, `projectiles/${id}`));
+                    this.transport.remove(`${this.projectilesPath}/${id}`).catch(error => console.warn("Failed to remove projectile:", error));
                 }
             }
         });
     }
+    
+    /**
+     * Moves our bots back to their simulated state before the frame's ticks run
+     */
+    public restoreSimulatedTransforms(): void {
+        this.botManager.getBotUUIDs().forEach(uuid => this.botManager.getBotPlayer(uuid)!.restoreSimulatedTransform());
+    }
+    
+    /**
+     * Draws our bots and the remote projectiles between the last two ticks
+     * @param alpha How far the frame is past the last tick, from 0 to 1
+     */
+    public interpolateTransforms(alpha: number): void {
+        this.botManager.getBotUUIDs().forEach(uuid => this.botManager.getBotPlayer(uuid)!.interpolateTransform(alpha));
+        this.otherProjectiles.forEach(projectile => projectile.interpolate(alpha));
+    }
 }
\ No newline at end of file
@@ -0,0 +1,87 @@
+/**
+ * Function returned by subscriptions to stop listening for changes
+ */
+export type Unsubscribe = () => void;
+
+/**
+ * Abstraction over the realtime data store used for multiplayer synchronization.
+ * Paths are slash separated keys (e.g. "players/<uuid>") mirroring the Firebase schema,
+ * so every implementation exposes the same `players`/`projectiles`/`deathEffects` layout.
+ */
+export interface NetworkTransport {
+    /**
+     * Listens for changes at a path. The callback is invoked with the current value
+     * (or null when nothing is stored there) and again every time it changes.
+     * @param path Slash separated data path
+     * @param callback Receives the value stored at the path
+     * @returns Function that removes the listener
+     */
+    subscribe(path: string, callback: (value: any) => void): Unsubscribe;
+
+    /**
+     * Reads the value at a path once
+     * @param path Slash separated data path
+     * @returns The stored value or null
+     */
+    read(path: string): Promise<any>;
+
+    /**
+     * Replaces the value at a path
+     * @param path Slash separated data path
+     * @param value Value to store (null removes the node)
+     */
+    write(path: string, value: any): Promise<void>;
+
+    /**
+     * Applies several child writes relative to a path at once (null values remove children)
+     * @param path Slash separated parent path
+     * @param updates Map of child keys to new values
+     */
+    update(path: string, updates: {[key: string]: any}): Promise<void>;
+
+    /**
+     * Reserves a new unique, chronologically ordered child key under a path
+     * @param path Slash separated parent path
+     * @returns The generated key (nothing is written yet)
+     */
+    push(path: string): string;
+
+    /**
+     * Removes the value at a path
+     * @param path Slash separated data path
+     */
+    remove(path: string): Promise<void>;
+
+    /**
+     * Schedules removal of a path when this client's connection is lost or closed
+     * @param path Slash separated data path
+     */
+    onDisconnect(path: string): void;
+
+    /**
+     * Cancels a removal scheduled with onDisconnect()
+     * @param path Slash separated data path
+     */
+    cancelOnDisconnect(path: string): void;
+
+    /**
+     * Atomically updates the value at a path
+     * @param path Slash separated data path
+     * @param updateFunction Receives the current value and returns the new one, or undefined to abort
+     * @returns True if the new value was committed
+     */
+    transaction(path: string, updateFunction: (current: any) => any): Promise<boolean>;
+
+    /**
+     * Listens for changes of the connection to the backend. The callback is invoked with
+     * the current state and again every time the connection drops or comes back.
+     * @param callback Receives true while connected
+     * @returns Function that removes the listener
+     */
+    onConnectionChange(callback: (connected: boolean) => void): Unsubscribe;
+
+    /**
+     * Releases listeners and connections held by the transport
+     */
+    dispose(): void;
+}
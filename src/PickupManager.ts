@@ -0,0 +1,389 @@
+import { Scene, Vector3, Quaternion, MeshBuilder, StandardMaterial, Color3, Color4, Mesh, ParticleSystem } from '@babylonjs/core';
+import { NetworkTransport, Unsubscribe } from './NetworkTransport';
+import { ClockSync } from './ClockSync';
+import { Player } from './Player';
+import { StarSystem } from './StarSystem';
+import { WeaponRegistry } from './WeaponRegistry';
+import { EffectPool } from './EffectPool';
+
+export type PickupType = 'fuel' | 'health' | 'weapon';
+
+// A place on a planet or moon where a pickup appears, the same on every client
+export interface PickupSpawn {
+    id: string;
+    type: PickupType;
+    weaponId?: string;      // Weapon handed out by weapon pickups
+    bodyIndex: number;      // Body of the star system the pickup lies on
+    direction: Vector3;     // Direction from the body's center
+    respawnTime: number;    // Time until the pickup comes back after being taken (ms)
+}
+
+// Ownership of a pickup, stored at rooms/<id>/pickups/<spawnId>
+export interface PickupClaimData {
+    takenBy: string;        // Player who got the item
+    takenAt: number;        // Server time it was taken (ms)
+    availableAt: number;    // Server time it respawns (ms)
+}
+
+// What the pickup manager needs from the multiplayer manager
+export interface PickupContext {
+    isHost(): boolean;
+    healPlayer(uuid: string, amount: number, sourceId: string): void; // Publishes healing, host only
+}
+
+/**
+ * Fuel canisters, health packs and weapons lying on the surface of the planets and moons.
+ * Spawn points are generated from the main planet's seed, so every client places them
+ * identically, and each pickup is claimed with a transaction so only one player gets it
+ * before it respawns.
+ */
+export class PickupManager {
+    public static readonly FUEL_AMOUNT: number = 50; // Fuel given by a canister
+    public static readonly HEALTH_AMOUNT: number = 50; // Health restored by a health pack
+
+    private spawns: PickupSpawn[];
+    private claims: {[id: string]: PickupClaimData} = {};
+    private meshes: Map<string, Mesh> = new Map();
+    private materials: Map<string, StandardMaterial> = new Map(); // Shared per pickup kind
+    private pendingClaims: Set<string> = new Set(); // Pickups we are trying to take
+    private healedClaims: Set<string> = new Set(); // Health pack claims the host already applied
+    private unsubscribe: Unsubscribe | null = null;
+    private audioContext: AudioContext | null = null;
+    private lastPickup: { name: string, time: number } | null = null;
+    private readonly PICKUP_DISTANCE: number = 0.8; // How close the player must get to take an item
+    private readonly HOVER_HEIGHT: number = 0.4; // Height of the items above the surface
+    private readonly SPIN_SPEED: number = 1.5; // Item rotation (radians per second)
+    private readonly APPEAR_DURATION: number = 300; // Time respawned items take to grow to full size (ms)
+    private readonly HEAL_MAX_AGE: number = 3000; // Older health pack claims are not healed again after a host change (ms)
+
+    /**
+     * @param scene Scene the items are shown in
+     * @param transport Network transport holding the pickup claims
+     * @param pickupsPath Path of the pickup claims
+     * @param localPlayer The player that collects items on this client
+     * @param clock Server clock used for respawn timers
+     * @param system Bodies the items lie on, the main planet's seed places the spawn points
+     * @param context Host role and healing
+     */
+    constructor(
+        private scene: Scene,
+        private transport: NetworkTransport,
+        private pickupsPath: string,
+        private localPlayer: Player,
+        private clock: ClockSync,
+        private system: StarSystem,
+        private context: PickupContext
+    ) {
+        this.spawns = PickupManager.createSpawns(system.getMainBody().getDefinition().seed, system.getBodies().length);
+        this.spawns.forEach(spawn => this.meshes.set(spawn.id, this.createMesh(spawn)));
+    }
+
+    /**
+     * Generates the spawn points of a star system. The same seed always gives the same points.
+     * @param seed Main planet seed
+     * @param bodyCount Number of bodies in the system, items are spread over them in turn
+     */
+    public static createSpawns(seed: number, bodyCount: number = 1): PickupSpawn[] {
+        const random = PickupManager.createRandom(Math.floor(seed * 1000));
+        const layout: { type: PickupType, weaponId?: string, count: number, respawnTime: number }[] = [
+            { type: 'fuel', count: 4, respawnTime: 10000 },
+            { type: 'health', count: 3, respawnTime: 20000 },
+            { type: 'weapon', weaponId: 'rapid', count: 1, respawnTime: 30000 },
+            { type: 'weapon', weaponId: 'sniper', count: 1, respawnTime: 30000 },
+            { type: 'weapon', weaponId: 'grenade', count: 1, respawnTime: 30000 }
+        ];
+
+        const spawns: PickupSpawn[] = [];
+        layout.forEach(entry => {
+            for (let i = 0; i < entry.count; i++) {
+                // Uniform direction on the sphere
+                const z = random() * 2 - 1;
+                const angle = random() * Math.PI * 2;
+                const r = Math.sqrt(1 - z * z);
+                spawns.push({
+                    id: `${entry.weaponId || entry.type}${i}`,
+                    type: entry.type,
+                    weaponId: entry.weaponId,
+                    bodyIndex: spawns.length % bodyCount,
+                    direction: new Vector3(r * Math.cos(angle), r * Math.sin(angle), z),
+                    respawnTime: entry.respawnTime
+                });
+            }
+        });
+        return spawns;
+    }
+
+    /**
+     * Starts following the pickup claims
+     */
+    public start(): void {
+        this.unsubscribe = this.transport.subscribe(this.pickupsPath, (claims) => {
+            const previous = this.claims;
+            this.claims = claims || {};
+
+            Object.keys(this.claims).forEach(id => {
+                const claim = this.claims[id];
+                const before = previous[id];
+                if (before && before.takenAt === claim.takenAt) return;
+
+                // Someone just took this item
+                const spawn = this.getSpawn(id);
+                if (spawn && this.clock.now() - claim.takenAt < this.HEAL_MAX_AGE) {
+                    this.createTakenEffect(spawn);
+                    if (spawn.type === 'health') {
+                        this.applyHealing(id, claim);
+                    }
+                }
+            });
+        });
+    }
+
+    /**
+     * Returns the pickup spawn points
+     */
+    public getSpawns(): PickupSpawn[] {
+        return this.spawns.slice();
+    }
+
+    /**
+     * Returns whether an item is lying at its spawn point
+     * @param id Spawn point ID
+     */
+    public isAvailable(id: string): boolean {
+        const claim = this.claims[id];
+        return !claim || claim.availableAt <= this.clock.now();
+    }
+
+    /**
+     * Returns the name of the last item the local player took and when, for the HUD
+     */
+    public getLastPickup(): { name: string, time: number } | null {
+        return this.lastPickup;
+    }
+
+    /**
+     * Animates the items and takes those the local player touches
+     */
+    public update(): void {
+        const currentTime = this.clock.now();
+        const playerPosition = this.localPlayer.getMesh().position;
+
+        this.spawns.forEach(spawn => {
+            const mesh = this.meshes.get(spawn.id)!;
+            const available = this.isAvailable(spawn.id);
+
+            // Respawned items grow back in, so players notice them
+            const claim = this.claims[spawn.id];
+            const appear = claim ? Math.min(1, (currentTime - claim.availableAt) / this.APPEAR_DURATION) : 1;
+            mesh.isVisible = available;
+            mesh.scaling.setAll(Math.max(0.01, appear));
+
+            // Bob above the surface and spin around the normal
+            const spin = Quaternion.RotationAxis(Vector3.Up(), currentTime / 1000 * this.SPIN_SPEED);
+            mesh.rotationQuaternion = Quaternion.FromUnitVectorsToRef(Vector3.Up(), spawn.direction, new Quaternion()).multiply(spin);
+            const bob = Math.sin(currentTime / 300 + spawn.direction.x * 10) * 0.05;
+            mesh.position = this.getSpawnPosition(spawn, this.HOVER_HEIGHT + bob);
+
+            if (available && !this.pendingClaims.has(spawn.id) &&
+                Vector3.Distance(playerPosition, mesh.position) < this.PICKUP_DISTANCE) {
+                this.claim(spawn);
+            }
+        });
+    }
+
+    /**
+     * Returns the world position of a spawn point
+     * @param spawn The spawn point
+     * @param height Height above the terrain
+     */
+    private getSpawnPosition(spawn: PickupSpawn, height: number): Vector3 {
+        const body = this.system.getBody(spawn.bodyIndex);
+        return body.getCenter().add(spawn.direction.scale(body.getSurfaceRadius(spawn.direction) + height));
+    }
+
+    /**
+     * Removes the items and stops following the claims
+     */
+    public dispose(): void {
+        if (this.unsubscribe) {
+            this.unsubscribe();
+            this.unsubscribe = null;
+        }
+        this.meshes.forEach(mesh => mesh.dispose());
+        this.meshes.clear();
+        this.materials.forEach(material => material.dispose());
+        this.materials.clear();
+        if (this.audioContext) {
+            this.audioContext.close();
+            this.audioContext = null;
+        }
+    }
+
+    /**
+     * Tries to take an item. The transaction fails if another player got it first.
+     */
+    private claim(spawn: PickupSpawn): void {
+        const playerUUID = this.localPlayer.getUUID();
+        this.pendingClaims.add(spawn.id);
+
+        this.transport.transaction(`${this.pickupsPath}/${spawn.id}`, (current: PickupClaimData | null) => {
+            const currentTime = this.clock.now();
+            if (current && current.availableAt > currentTime) {
+                return undefined; // Already taken
+            }
+            const claimData: PickupClaimData = { takenBy: playerUUID, takenAt: currentTime, availableAt: currentTime + spawn.respawnTime };
+            return claimData;
+        }).then((committed) => {
+            if (committed) {
+                this.applyPickup(spawn);
+            }
+        }).catch(error => {
+            console.warn("Failed to take pickup:", error);
+        }).then(() => {
+            this.pendingClaims.delete(spawn.id);
+        });
+    }
+
+    /**
+     * Gives the local player what they picked up. Healing goes through the host,
+     * which owns health.
+     */
+    private applyPickup(spawn: PickupSpawn): void {
+        let name: string;
+        switch (spawn.type) {
+            case 'fuel':
+                this.localPlayer.refuel(PickupManager.FUEL_AMOUNT);
+                name = 'Fuel';
+                break;
+            case 'health':
+                name = 'Health pack';
+                break;
+            default:
+                this.localPlayer.giveWeapon(spawn.weaponId!);
+                name = WeaponRegistry.get(spawn.weaponId).name;
+                break;
+        }
+
+        this.lastPickup = { name, time: Date.now() };
+        this.playCue(spawn.type === 'weapon' ? 440 : 660);
+        console.log("Picked up:", name);
+    }
+
+    /**
+     * Publishes the healing of a health pack (host only)
+     */
+    private applyHealing(id: string, claim: PickupClaimData): void {
+        if (!this.context.isHost()) return;
+
+        const key = `${id}_${claim.takenAt}`;
+        if (this.healedClaims.has(key)) return;
+        this.healedClaims.add(key);
+
+        this.context.healPlayer(claim.takenBy, PickupManager.HEALTH_AMOUNT, key);
+    }
+
+    /**
+     * Returns a spawn point by ID
+     */
+    private getSpawn(id: string): PickupSpawn | undefined {
+        return this.spawns.filter(spawn => spawn.id === id)[0];
+    }
+
+    /**
+     * Creates the mesh of an item, colored by its kind
+     */
+    private createMesh(spawn: PickupSpawn): Mesh {
+        let mesh: Mesh;
+        let color: Color3;
+        switch (spawn.type) {
+            case 'fuel':
+                mesh = MeshBuilder.CreateCylinder(`pickup_${spawn.id}`, { diameter: 0.15, height: 0.3 }, this.scene);
+                color = new Color3(1, 0.5, 0);
+                break;
+            case 'health':
+                mesh = MeshBuilder.CreateBox(`pickup_${spawn.id}`, { size: 0.22 }, this.scene);
+                color = new Color3(0.2, 1, 0.3);
+                break;
+            default: {
+                mesh = MeshBuilder.CreatePolyhedron(`pickup_${spawn.id}`, { type: 1, size: 0.15 }, this.scene);
+                const trail = WeaponRegistry.get(spawn.weaponId).visuals.trailColor1;
+                color = new Color3(trail.r, trail.g, trail.b);
+                break;
+            }
+        }
+
+        const materialKey = spawn.weaponId || spawn.type;
+        let material = this.materials.get(materialKey);
+        if (!material) {
+            material = new StandardMaterial(`pickupMaterial_${materialKey}`, this.scene);
+            material.diffuseColor = color;
+            material.emissiveColor = color.scale(0.6); // Glow a little so items stand out on the dark side
+            this.materials.set(materialKey, material);
+        }
+        mesh.material = material;
+        mesh.isPickable = false;
+        return mesh;
+    }
+
+    /**
+     * Shows a short burst where an item was taken
+     */
+    private createTakenEffect(spawn: PickupSpawn): void {
+        const mesh = this.meshes.get(spawn.id)!;
+        const color = (mesh.material as StandardMaterial).diffuseColor;
+
+        const particles = EffectPool.get(this.scene).acquireParticles("pickupEffect", 50);
+        particles.emitter = this.getSpawnPosition(spawn, this.HOVER_HEIGHT);
+        particles.color1 = new Color4(color.r, color.g, color.b, 1);
+        particles.color2 = new Color4(1, 1, 1, 0.8);
+        particles.colorDead = new Color4(0, 0, 0, 0);
+        particles.minSize = 0.05;
+        particles.maxSize = 0.15;
+        particles.minLifeTime = 0.2;
+        particles.maxLifeTime = 0.5;
+        particles.manualEmitCount = 50;
+        particles.minEmitPower = 0.5;
+        particles.maxEmitPower = 1.5;
+        particles.blendMode = ParticleSystem.BLENDMODE_ADD;
+        particles.targetStopDuration = 0.6; // Back to the pool once the burst faded
+        particles.start();
+    }
+
+    /**
+     * Plays a short rising tone, generated so no sound files are needed
+     * @param frequency Start frequency (Hz)
+     */
+    private playCue(frequency: number): void {
+        if (typeof AudioContext === 'undefined') return;
+        if (!this.audioContext) {
+            this.audioContext = new AudioContext();
+        }
+
+        const context = this.audioContext;
+        const oscillator = context.createOscillator();
+        const gain = context.createGain();
+        oscillator.type = 'triangle';
+        oscillator.frequency.setValueAtTime(frequency, context.currentTime);
+        oscillator.frequency.exponentialRampToValueAtTime(frequency * 2, context.currentTime + 0.15);
+        gain.gain.setValueAtTime(0.2, context.currentTime);
+        gain.gain.exponentialRampToValueAtTime(0.001, context.currentTime + 0.25);
+        oscillator.connect(gain);
+        gain.connect(context.destination);
+        oscillator.start();
+        oscillator.stop(context.currentTime + 0.25);
+    }
+
+    /**
+     * Returns a seeded pseudo random generator (mulberry32)
+     */
+    private static createRandom(seed: number): () => number {
+        let state = seed >>> 0;
+        return () => {
+            state = (state + 0x6D2B79F5) >>> 0;
+            let t = state;
+            t = Math.imul(t ^ (t >>> 15), t | 1);
+            t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+            return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+        };
+    }
+}
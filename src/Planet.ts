@@ -1,6 +1,20 @@
 import { Scene, Vector3, MeshBuilder, Color3, StandardMaterial, Mesh, Texture, Animation } from "@babylonjs/core";
 import { PerlinNoiseProceduralTexture } from '@babylonjs/procedural-textures';
 
+// Everything needed to rebuild the exact same planet on every client, stored in the match state
+export interface PlanetDefinition {
+    seed: number;               // Noise seed for terrain and craters
+    radius: number;             // Base radius of the sphere
+    craterDepth: number;        // Controls how deep craters appear
+    craterFrequency: number;    // Controls how many craters appear
+    textureSize: number;        // Resolution of the procedural bump texture
+    textureRandomness: number;  // Randomness of the perlin noise texture
+    textureOffsetU: number;     // Texture U offset
+    textureOffsetV: number;     // Texture V offset
+    center?: { x: number, y: number, z: number }; // Position in the star system, the origin when missing
+    gravity?: number;           // Surface gravity relative to the main planet, 1 when missing
+}
+
 export class Planet {
     private noiseSeed: number;
     private baseRadius: number = 4; // Half of diameter (8)
@@ -8,9 +22,24 @@ export class Planet {
     private glowAnimation: Animation;
     private craterDepth: number = 1.6;// Controls how deep craters appear
     private craterFrequency: number = 2.0; // Controls how many craters appear
+    private readonly definition: PlanetDefinition;
+    private readonly center: Vector3; // Position of the planet's center in the world
+    private readonly surfaceGravity: number; // Gravity at the surface, 1 for the main planet
+    private heightmap: Float32Array; // Surface radius baked on a latitude/longitude grid, see getSurfaceRadius()
+    private readonly HEIGHTMAP_WIDTH: number = 1024; // Longitude samples, about the mesh resolution
+    private readonly HEIGHTMAP_HEIGHT: number = 512; // Latitude samples, from pole to pole
 
-    constructor(private scene: Scene) {
-        this.noiseSeed = Math.random() * 10000;
+    constructor(private scene: Scene, definition: PlanetDefinition = Planet.createRandomDefinition()) {
+        this.definition = { ...definition };
+        this.noiseSeed = definition.seed;
+        this.baseRadius = definition.radius;
+        this.craterDepth = definition.craterDepth;
+        this.craterFrequency = definition.craterFrequency;
+        this.center = definition.center ? new Vector3(definition.center.x, definition.center.y, definition.center.z) : Vector3.Zero();
+        this.surfaceGravity = definition.gravity !== undefined ? definition.gravity : 1;
+        
+        // Bake the terrain once, gameplay queries the surface every frame
+        this.heightmap = this.bakeHeightmap();
         
         // Create the glow animation
         this.glowAnimation = new Animation(
@@ -22,11 +51,61 @@ export class Planet {
         );
     }
 
+    /**
+     * Creates a random planet definition, used by the client that creates a match
+     */
+    public static createRandomDefinition(): PlanetDefinition {
+        return {
+            seed: Math.random() * 10000,
+            radius: 4,
+            craterDepth: 1.6,
+            craterFrequency: 2.0,
+            // random nb from 128 to 2048
+            textureSize: Math.floor(Math.random() * (2048 - 128 + 1)) + 128,
+            textureRandomness: Math.random(),
+            textureOffsetU: Math.random(),
+            textureOffsetV: Math.random()
+        };
+    }
+
+    // Getter for the definition this planet was built from
+    getDefinition(): PlanetDefinition {
+        return { ...this.definition };
+    }
+
     // Getter for the base radius
     getBaseRadius(): number {
         return this.baseRadius;
     }
 
+    // Getter for the planet's center in the world
+    getCenter(): Vector3 {
+        return this.center.clone();
+    }
+
+    // Getter for the gravity at the surface, relative to the main planet
+    getSurfaceGravity(): number {
+        return this.surfaceGravity;
+    }
+
+    /**
+     * Returns the strength of this planet's gravity at a point. It equals the surface
+     * gravity at the base radius and falls off with the square of the distance.
+     * @param position World position
+     */
+    getGravityAt(position: Vector3): number {
+        const distanceSquared = Math.max(Vector3.DistanceSquared(position, this.center), 0.0001);
+        return this.surfaceGravity * this.baseRadius * this.baseRadius / distanceSquared;
+    }
+
+    /**
+     * Returns the unit vector pointing away from the planet's center at a point
+     * @param position World position
+     */
+    getUpVector(position: Vector3): Vector3 {
+        return position.subtract(this.center).normalize();
+    }
+
     // Getter for the mesh
     getMesh(): Mesh {
         return this.mesh;
@@ -35,7 +114,7 @@ export class Planet {
     create(): Mesh {
         // Create a sphere as the base for our planet
         this.mesh = MeshBuilder.CreateSphere("planet", { 
-            segments: 512,
+            segments: Math.max(128, Math.round(this.baseRadius * 128)), // 512 for the main planet, fewer for moons
             diameter: this.baseRadius * 2,
             updatable: true,
             sideOrientation: Mesh.FRONTSIDE 
@@ -48,46 +127,15 @@ export class Planet {
         const uvs = this.mesh.getVerticesData("uv");
         
         if (positions && normals && uvs) {
-            // First pass: Apply basic terrain noise
+            // Move every vertex to the terrain surface in its direction, so the mesh
+            // matches the surface queries used for collisions
             for (let i = 0; i < positions.length; i += 3) {
-                const x = positions[i];
-                const y = positions[i + 1];
-                const z = positions[i + 2];
-                
-                // Base noise for terrain variation
-                const baseNoise = this.simplexNoise(x, y, z);
-                const magnitude = 0.2;
+                const direction = new Vector3(positions[i], positions[i + 1], positions[i + 2]).normalize();
+                const radius = this.computeSurfaceRadius(direction);
                 
-                // Apply base terrain deformation
-                positions[i] *= 1 + (baseNoise * magnitude);
-                positions[i + 1] *= 1 + (baseNoise * magnitude);
-                positions[i + 2] *= 1 + (baseNoise * magnitude);
-            }
-            
-            // Second pass: Apply craters
-            for (let i = 0; i < positions.length; i += 3) {
-                const x = positions[i];
-                const y = positions[i + 1];
-                const z = positions[i + 2];
-                
-                // Calculate normalized direction vector from center to vertex
-                const length = Math.sqrt(x*x + y*y + z*z);
-                const nx = x / length;
-                const ny = y / length;
-                const nz = z / length;
-                
-                // Generate crater noise (negative values for depressions)
-                const craterNoise = this.craterNoise(nx * this.craterFrequency, 
-                                                    ny * this.craterFrequency, 
-                                                    nz * this.craterFrequency);
-                
-                // Apply crater deformation (only sink inward, don't push outward)
-                const craterEffect = Math.min(0, craterNoise) * this.craterDepth;
-                
-                // Apply the crater deformation in the direction of the normal
-                positions[i] += nx * craterEffect;
-                positions[i + 1] += ny * craterEffect;
-                positions[i + 2] += nz * craterEffect;
+                positions[i] = direction.x * radius;
+                positions[i + 1] = direction.y * radius;
+                positions[i + 2] = direction.z * radius;
             }
             
             // Update the mesh with new vertex positions
@@ -96,17 +144,18 @@ export class Planet {
             // Recalculate normals for proper lighting
             this.mesh.createNormals(true);
         }
+        
+        // Moons orbit away from the origin
+        this.mesh.position = this.center.clone();
 
         const material = new StandardMaterial("planetMaterial", this.scene);
         
         // Create base noise texture with higher resolution for better detail
         const randomTextureId = "perlinNoise_" + Math.floor(this.noiseSeed);
-        // random nb from 128 to 2048
-        const randomTextureSize = Math.floor(Math.random() * (2048 - 128 + 1)) + 128;
-        const noiseTexture = new PerlinNoiseProceduralTexture(randomTextureId, randomTextureSize, this.scene);
+        const noiseTexture = new PerlinNoiseProceduralTexture(randomTextureId, this.definition.textureSize, this.scene);
         
         // Configure noise texture properties
-        noiseTexture.setFloat("randomness", Math.random());
+        noiseTexture.setFloat("randomness", this.definition.textureRandomness);
         noiseTexture.setFloat("persistence", 2.8);  // Higher persistence for more detailed noise
         noiseTexture.setFloat("amplitude", 0.5);    // Increased amplitude for stronger effect
         
@@ -162,14 +211,108 @@ export class Planet {
         noiseTexture.wrapU = Texture.WRAP_ADDRESSMODE;
         noiseTexture.wrapV = Texture.WRAP_ADDRESSMODE;
         
-        noiseTexture.uOffset = Math.random();
-        noiseTexture.vOffset = Math.random();
+        noiseTexture.uOffset = this.definition.textureOffsetU;
+        noiseTexture.vOffset = this.definition.textureOffsetV;
         
         noiseTexture.refreshRate = 0;
 
         return this.mesh;
     }
 
+    /**
+     * Returns the distance from the planet center to the terrain surface in a direction.
+     * Fast lookup in the baked heightmap, used by movement, spawning and collisions.
+     * @param direction Direction from the planet center, does not need to be normalized
+     */
+    public getSurfaceRadius(direction: Vector3): number {
+        const length = direction.length();
+        if (length === 0) return this.baseRadius;
+        
+        // Grid coordinates: latitude from the +Y pole, longitude around Y
+        const theta = Math.acos(Math.max(-1, Math.min(1, direction.y / length)));
+        let phi = Math.atan2(direction.z, direction.x);
+        if (phi < 0) phi += Math.PI * 2;
+        
+        const row = theta / Math.PI * (this.HEIGHTMAP_HEIGHT - 1);
+        const column = phi / (Math.PI * 2) * this.HEIGHTMAP_WIDTH;
+        const row0 = Math.min(Math.floor(row), this.HEIGHTMAP_HEIGHT - 2);
+        const column0 = Math.floor(column) % this.HEIGHTMAP_WIDTH;
+        const column1 = (column0 + 1) % this.HEIGHTMAP_WIDTH; // Longitude wraps around
+        const u = column - Math.floor(column);
+        const v = row - row0;
+        
+        // Bilinear interpolation between the four surrounding samples
+        const top = this.heightmap[row0 * this.HEIGHTMAP_WIDTH + column0] * (1 - u) + this.heightmap[row0 * this.HEIGHTMAP_WIDTH + column1] * u;
+        const bottom = this.heightmap[(row0 + 1) * this.HEIGHTMAP_WIDTH + column0] * (1 - u) + this.heightmap[(row0 + 1) * this.HEIGHTMAP_WIDTH + column1] * u;
+        return top * (1 - v) + bottom * v;
+    }
+
+    /**
+     * Samples the exact surface radius on the latitude/longitude grid
+     */
+    private bakeHeightmap(): Float32Array {
+        const heightmap = new Float32Array(this.HEIGHTMAP_WIDTH * this.HEIGHTMAP_HEIGHT);
+        
+        for (let row = 0; row < this.HEIGHTMAP_HEIGHT; row++) {
+            const theta = row / (this.HEIGHTMAP_HEIGHT - 1) * Math.PI;
+            for (let column = 0; column < this.HEIGHTMAP_WIDTH; column++) {
+                const phi = column / this.HEIGHTMAP_WIDTH * Math.PI * 2;
+                const direction = new Vector3(Math.sin(theta) * Math.cos(phi), Math.cos(theta), Math.sin(theta) * Math.sin(phi));
+                heightmap[row * this.HEIGHTMAP_WIDTH + column] = this.computeSurfaceRadius(direction);
+            }
+        }
+        
+        return heightmap;
+    }
+
+    /**
+     * Computes the distance from the planet center to the terrain surface in a direction,
+     * including the noise and craters that deform the sphere. Used to build the mesh and
+     * the heightmap.
+     * @param direction Direction from the planet center, does not need to be normalized
+     */
+    private computeSurfaceRadius(direction: Vector3): number {
+        const length = direction.length();
+        if (length === 0) return this.baseRadius;
+        
+        // Calculate normalized direction vector from center to the surface point
+        const nx = direction.x / length;
+        const ny = direction.y / length;
+        const nz = direction.z / length;
+        
+        // Base noise for terrain variation, sampled on the undeformed sphere
+        const baseNoise = this.simplexNoise(nx * this.baseRadius, ny * this.baseRadius, nz * this.baseRadius);
+        const magnitude = 0.2;
+        
+        // Generate crater noise (negative values for depressions)
+        const craterNoise = this.craterNoise(nx * this.craterFrequency, 
+                                            ny * this.craterFrequency, 
+                                            nz * this.craterFrequency);
+        
+        // Apply crater deformation (only sink inward, don't push outward)
+        const craterEffect = Math.min(0, craterNoise) * this.craterDepth;
+        
+        return this.baseRadius * (1 + baseNoise * magnitude) + craterEffect;
+    }
+
+    /**
+     * Returns whether a point is above the terrain surface
+     * @param position World position
+     */
+    public isAboveSurface(position: Vector3): boolean {
+        const relative = position.subtract(this.center);
+        return relative.length() > this.getSurfaceRadius(relative);
+    }
+
+    /**
+     * Returns the height of a point above the terrain surface, negative below it
+     * @param position World position
+     */
+    public getAltitude(position: Vector3): number {
+        const relative = position.subtract(this.center);
+        return relative.length() - this.getSurfaceRadius(relative);
+    }
+
     private simplexNoise(x: number, y: number, z: number): number {
         const scale = 0.8;
         const nx = Math.sin((x + this.noiseSeed) * scale);
@@ -1,10 +1,17 @@
 import { Scene, Vector3, MeshBuilder, StandardMaterial, Color3, Color4, Mesh, MultiMaterial, SubMesh, Matrix, Quaternion, Space, SceneLoader, TransformNode, ParticleSystem, Texture, AbstractMesh } from "@babylonjs/core";
 import { Planet } from './Planet';
+import { StarSystem } from './StarSystem';
 import { Projectile } from './Projectile';
+import { HealthModel } from './HealthModel';
+import { WeaponDefinition, WeaponRegistry } from './WeaponRegistry';
+import { WeaponState } from './WeaponState';
+import { SpawnSelector, SpawnThreats } from './SpawnSelector';
+import { InputCommand, MovementState } from './ClientPrediction';
 
 export class Player {
     private mesh!: Mesh;
-    private heightAboveSurface: number = 0.60; // Units above planet surface
+    private heightAboveSurface: number = 0.60; // Units above the terrain surface below the player
+    private readonly STANDING_HEIGHT: number = 0.60; // Height of the player's center when standing on the ground
     private movementSpeed: number = 1; // Speed of orbital movement
     private astronautModel: TransformNode | null = null; // Container for the astronaut model
     private debugCubeVisible: boolean = false; // New property to control debug cube visibility
@@ -21,8 +28,24 @@ export class Player {
     private readonly FUEL_BURN_RATE: number = 16.67; // Units per second (empty in 3 seconds)
     private readonly FUEL_REFILL_RATE: number = 12.67; // Units per second (2x slower than burn rate)
     private hasFuel: boolean = true; // Tracks if there's any fuel left
+    
+    // Health and armor, changed only by damage events from the authority
+    private healthModel: HealthModel = new HealthModel();
+    
+    // Spawn protection, the authority ignores hits while it lasts
+    public static readonly SPAWN_PROTECTION_TIME: number = 3000; // How long a fresh spawn is protected (ms)
+    private spawnProtectionUntil: number = 0; // Ends early when the player shoots
+    private remoteShieldActive: boolean = false; // Shield state received for remote players
+    private shieldMesh: Mesh | null = null;
+    private spawnSelector: SpawnSelector;
 
     private projectiles: Projectile[] = [];
+    
+    // Weapon state
+    private weapon: WeaponDefinition = WeaponRegistry.get(WeaponRegistry.DEFAULT_WEAPON);
+    private weaponStates: Map<string, WeaponState> = new Map(); // Cooldown, ammo and heat per weapon
+    private ownedWeapons: Set<string> = new Set([WeaponRegistry.DEFAULT_WEAPON]); // Weapons picked up since the last respawn
+    private chargeStartTime: number = 0; // When the trigger was pulled on a charged weapon, 0 when not charging
     private onFragCallback: () => void = () => {};
     
     // Unique identifier for this player instance
@@ -34,37 +57,52 @@ export class Player {
     // Flag to differentiate between local and remote player
     private isRemotePlayer: boolean = false;
 
-    // Remote player interpolation properties
-    private targetPosition: Vector3 | null = null;           // Target position to interpolate toward
-    private currentInterpolatedPosition: Vector3 | null = null;  // Current interpolated position
-    private previousTargetPosition: Vector3 | null = null;   // Previous target position for velocity estimation
-    private targetRotation: Quaternion | null = null;        // Target rotation to interpolate toward
-    private currentInterpolatedRotation: Quaternion | null = null; // Current interpolated rotation
-    private readonly POSITION_INTERPOLATION_SPEED: number = 15;   // Position units per second (adjusted for smoother movement)
-    private readonly ROTATION_INTERPOLATION_SPEED: number = 10;   // Rotation interpolation speed (works well)
-    private lastRemotePositionUpdate: number = 0;            // Timestamp of last position update for debugging
-    private estimatedVelocity: Vector3 | null = null;        // Estimated velocity for prediction
-    private readonly SMOOTHING_FACTOR: number = 0.25;        // Smoothing factor for position (lower = smoother)
-    private remoteHeightAboveSurface: number = 0.60;         // Current interpolated height above surface
-    private targetHeight: number = 0.60;                     // Target height to interpolate toward
-    private previousHeight: number = 0.60;                   // Previous height for velocity calculation
-    private estimatedVerticalVelocity: number = 0;          // Estimated vertical velocity
-    private readonly HEIGHT_SMOOTHING_FACTOR: number = 0.2;  // Separate smoothing for height changes
-
-    constructor(private scene: Scene, private planet: Planet) {
-        // Generate random UUID for this player
-        this.uuid = this.generateUUID();
+    // Body whose gravity holds the player, changes when flying over to another planet or moon
+    private planet: Planet;
+
+    // Simulated position and rotation after the last two ticks, the mesh is drawn in between
+    private previousTransform: { position: Vector3, rotation: Quaternion } | null = null;
+    private currentTransform: { position: Vector3, rotation: Quaternion } | null = null;
+
+    // Difference between the drawn and the simulated state after a correction from the authority, fades out
+    private correctionOffset: Vector3 = Vector3.Zero();
+    private correctionRotation: Quaternion = Quaternion.Identity();
+    private triggerDown: boolean = false; // Whether the last input held the fire button
+    private readonly CORRECTION_SMOOTHING: number = 0.1; // Time for the correction to fade to about a third (seconds)
+    private readonly MAX_SMOOTHED_CORRECTION: number = 2; // Larger corrections snap, e.g. after a respawn
+
+    /**
+     * @param scene Scene the player's meshes are created in
+     * @param system Bodies the player moves on
+     * @param uuid Player ID, a random one by default
+     * @param clock Time source for weapons and spawn protection (ms), simulated time when headless
+     * @param headless Skip the model, materials and particles, for simulations without rendering
+     */
+    constructor(
+        private scene: Scene,
+        private system: StarSystem,
+        uuid: string = Player.generateUUID(),
+        private clock: () => number = () => Date.now(),
+        private headless: boolean = false
+    ) {
+        // Use the given identity or a random UUID for this player
+        this.uuid = uuid;
+        this.planet = system.getMainBody();
+        this.spawnSelector = new SpawnSelector(system);
         
         this.createPlayerMesh();
-        this.loadAstronautModel();
-        this.createJetpackParticles();
+        if (!headless) {
+            this.createShieldMesh();
+            this.loadAstronautModel();
+            this.createJetpackParticles();
+        }
     }
     
     /**
      * Generates a random UUID to uniquely identify the player
      * @returns A random UUID string
      */
-    private generateUUID(): string {
+    public static generateUUID(): string {
         // Simple UUID generation function
         return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
             const r = Math.random() * 16 | 0;
@@ -73,6 +111,13 @@ export class Player {
         });
     }
     
+    /**
+     * Returns the current time of the player's clock (ms)
+     */
+    public getTime(): number {
+        return this.clock();
+    }
+
     /**
      * Returns the player's UUID
      * @returns The player's unique identifier
@@ -118,6 +163,19 @@ export class Player {
         // Add player UUID to mesh metadata for collision identification
         this.mesh.metadata = { playerUUID: this.uuid };
 
+        // Headless players only need the box for their position and hit tests
+        if (!this.headless) {
+            this.applyDebugMaterials();
+        }
+
+        // Position the player near the planet surface
+        this.spawnRandomPosition();
+    }
+
+    /**
+     * Colors the player's cube, blue in front and green at the bottom, shown as the debug cube
+     */
+    private applyDebugMaterials(): void {
         // Create separate materials for front and bottom faces
         const frontMaterial = new StandardMaterial("frontMaterial", this.scene);
         frontMaterial.diffuseColor = new Color3(0, 0, 1); // Blue for front (Z-axis)
@@ -154,32 +212,27 @@ export class Player {
         
         // Bottom face (green, negative Y)
         this.mesh.subMeshes.push(new SubMesh(2, 0, this.mesh.getTotalVertices(), 30, 6, this.mesh));
-
-        // Position the player near the planet surface
-        this.spawnRandomPosition();
     }
 
-    private spawnRandomPosition(): void {
-        // Generate a random position on the sphere
-        const phi = Math.random() * Math.PI * 2; // Random angle around Y axis
-        const theta = Math.random() * Math.PI; // Random angle from Y axis
-        
-        // Convert spherical coordinates to cartesian
-        const planetRadius = this.planet.getBaseRadius();
-        const spawnRadius = planetRadius + this.heightAboveSurface;
-        
-        const x = spawnRadius * Math.sin(theta) * Math.cos(phi);
-        const y = spawnRadius * Math.cos(theta);
-        const z = spawnRadius * Math.sin(theta) * Math.sin(phi);
-        
-        this.mesh.position = new Vector3(x, y, z);
+    /**
+     * Places the player at a random point on any body of the system and starts spawn protection
+     * @param threats Enemies and projectiles to keep away from, none for a purely random point
+     */
+    private spawnRandomPosition(threats: SpawnThreats | null = null): void {
+        // Pick a point spread evenly over the bodies, away from the threats, and stand on the terrain there
+        const spawn = this.spawnSelector.pick(threats, this.heightAboveSurface);
+        this.planet = spawn.body;
+        this.mesh.position = this.spawnSelector.getPosition(spawn, this.heightAboveSurface);
+        
+        // Protected until the player shoots or the time runs out
+        this.spawnProtectionUntil = this.clock() + Player.SPAWN_PROTECTION_TIME;
 
         // Apply visual scale
         this.mesh.scaling = new Vector3(1.5, 1.5, 1.5);
 
         // Orient the player to stand on the planet surface
         // Calculate direction from planet center to player (this will be our up vector)
-        const toPlanetCenter = Vector3.Zero().subtract(this.mesh.position).normalize();
+        const toPlanetCenter = this.planet.getUpVector(this.mesh.position).scale(-1);
         
         // Since we want the bottom face (Y) pointing towards the planet:
         // - Set localUp as negative toPlanetCenter (points away from planet)
@@ -216,6 +269,37 @@ export class Player {
         // Apply the rotation
         this.mesh.rotationQuaternion = Quaternion.FromRotationMatrix(rotationMatrix);
 
+        // Teleported, don't draw the player sliding over from the old position
+        this.previousTransform = null;
+        this.currentTransform = null;
+        this.correctionOffset = Vector3.Zero();
+        this.correctionRotation = Quaternion.Identity();
+        this.updatePlayerIndex();
+    }
+
+    /**
+     * Moves the player's entry in the index projectiles test their hits against
+     */
+    private updatePlayerIndex(): void {
+        const radius = this.mesh.getBoundingInfo().boundingSphere.radius * this.mesh.scaling.x;
+        this.system.getPlayerIndex().set(this.uuid, this.mesh, this.mesh.position, radius);
+    }
+
+    /**
+     * Creates the translucent bubble shown around the player while spawn protected
+     */
+    private createShieldMesh(): void {
+        this.shieldMesh = MeshBuilder.CreateSphere("spawnShield", { diameter: 0.6, segments: 12 }, this.scene);
+        this.shieldMesh.parent = this.mesh; // Follows the player, scaled with it
+        this.shieldMesh.isPickable = false;
+        
+        const material = new StandardMaterial("spawnShieldMaterial", this.scene);
+        material.diffuseColor = new Color3(0.3, 0.8, 1);
+        material.emissiveColor = new Color3(0.2, 0.5, 0.8); // Glows a little on the night side
+        material.alpha = 0.25;
+        material.backFaceCulling = false;
+        this.shieldMesh.material = material;
+        this.shieldMesh.isVisible = false;
     }
 
     private loadAstronautModel(): void {
@@ -362,7 +446,7 @@ export class Player {
      */
     private moveAlongOrbit(crossAxis: Vector3, deltaTime: number): void {
         // Get normalized direction from player to planet center (this will be our reference for up)
-        const toPlanetCenter = Vector3.Zero().subtract(this.mesh.position).normalize();
+        const toPlanetCenter = this.planet.getUpVector(this.mesh.position).scale(-1);
 
         // Calculate the orbital movement direction by crossing the input axis with toPlanetCenter
         // This ensures movement is always tangent to the planet surface
@@ -374,13 +458,18 @@ export class Player {
         // Create rotation matrix around orbitDirection
         const rotationMatrix = Matrix.RotationAxis(orbitDirection, angle);
         
-        // Apply rotation to position while maintaining distance from planet
-        const planetRadius = this.planet.getBaseRadius();
-        const orbitRadius = planetRadius + this.heightAboveSurface;
+        // Apply rotation to the position relative to the planet center
+        const center = this.planet.getCenter();
+        const relative = this.mesh.position.subtract(center);
+        const newDirection = Vector3.TransformCoordinates(relative, rotationMatrix).normalize();
+        const surfaceRadius = this.planet.getSurfaceRadius(newDirection);
         
-        // Transform position and normalize to maintain orbit radius
-        const newPosition = Vector3.TransformCoordinates(this.mesh.position, rotationMatrix);
-        this.mesh.position = newPosition.normalize().scale(orbitRadius);
+        // On the ground, follow the terrain up and down hills. In the air, keep the
+        // altitude, so walking off a crater edge starts a fall, unless a hill is in the way.
+        const standingRadius = surfaceRadius + this.STANDING_HEIGHT;
+        const orbitRadius = this.isGrounded() ? standingRadius : Math.max(relative.length(), standingRadius);
+        this.heightAboveSurface = orbitRadius - surfaceRadius;
+        this.mesh.position = center.add(newDirection.scale(orbitRadius));
         
         // Keep the player's current orientation (don't rotate the mesh itself)
         // This ensures the blue face (Z) and green face (Y) stay properly oriented
@@ -408,8 +497,7 @@ export class Player {
         if (this.isRemotePlayer) return;
         
         // Get current up vector (away from planet center)
-        const toPlanetCenter = Vector3.Zero().subtract(this.mesh.position).normalize();
-        const localUp = toPlanetCenter.scale(-1);
+        const localUp = this.planet.getUpVector(this.mesh.position);
 
         // Create rotation matrix around the up vector
         const rotationMatrix = Matrix.RotationAxis(localUp, deltaRadians);
@@ -429,6 +517,9 @@ export class Player {
         // Apply new orientation
         this.mesh.rotationQuaternion = Quaternion.FromRotationMatrix(orientationMatrix);
 
+        // Refresh the cached world matrix, so moving in the same frame goes the new way
+        // instead of restoring the old heading. Bots turn and move in one update.
+        this.mesh.computeWorldMatrix(true);
     }
 
     /**
@@ -436,16 +527,11 @@ export class Player {
      * @param deltaTime Time since last frame for smooth movement
      */
     public updatePhysics(deltaTime: number): void {
-        // Skip physics for remote players
-        if (this.isRemotePlayer) {
-            // Instead, handle interpolation for remote players
-            this.updateRemoteInterpolation(deltaTime);
-            return;
-        }
+        // Skip physics for remote players, their state comes from the network (see applyRemoteState)
+        if (this.isRemotePlayer) return;
         
-        // Calculate the direction away from planet center (up vector)
-        const toPlanetCenter = Vector3.Zero().subtract(this.mesh.position).normalize();
-        const upVector = toPlanetCenter.scale(-1);
+        // Fall towards whichever body pulls hardest, jetpacking high enough reaches the next moon
+        this.updateDominantBody();
 
         // Update fuel levels
         this.updateFuel(deltaTime);
@@ -455,116 +541,75 @@ export class Player {
             this.verticalVelocity += this.JETPACK_FORCE * deltaTime;
         }
 
-        // Apply gravity
-        this.verticalVelocity -= this.GRAVITY_FORCE * deltaTime;
+        // Apply gravity, smaller moons pull less
+        this.verticalVelocity -= this.GRAVITY_FORCE * this.planet.getSurfaceGravity() * deltaTime;
 
         // Update height
         this.heightAboveSurface += this.verticalVelocity * deltaTime;
 
         // Clamp height between surface level and max height
-        if (this.heightAboveSurface < 0.60) {
-            this.heightAboveSurface = 0.60;
-            this.verticalVelocity = 0; // Stop vertical movement at surface
+        if (this.heightAboveSurface < this.STANDING_HEIGHT) {
+            this.heightAboveSurface = this.STANDING_HEIGHT;
+            this.verticalVelocity = 0; // Land on the terrain
         } else if (this.heightAboveSurface > this.MAX_HEIGHT) {
             this.heightAboveSurface = this.MAX_HEIGHT;
             this.verticalVelocity = 0; // Stop vertical movement at max height
         }
 
-        // Update position
-        const planetRadius = this.planet.getBaseRadius();
-        const newDistance = planetRadius + this.heightAboveSurface;
-        this.mesh.position = this.mesh.position.normalize().scale(newDistance);
+        // Update position relative to the terrain below
+        const center = this.planet.getCenter();
+        const direction = this.mesh.position.subtract(center).normalize();
+        const newDistance = this.planet.getSurfaceRadius(direction) + this.heightAboveSurface;
+        this.mesh.position = center.add(direction.scale(newDistance));
+    }
+
+    /**
+     * Switches to another body when its gravity takes over. The height and vertical speed
+     * are converted to the new body, and the player turns to stand upright on it.
+     */
+    private updateDominantBody(): void {
+        const body = this.system.getDominantBody(this.mesh.position, this.planet);
+        if (body === this.planet) return;
 
-        // Update particle system position and direction
-        this.updateParticleSystem();
+        const oldUp = this.planet.getUpVector(this.mesh.position);
+        const newUp = body.getUpVector(this.mesh.position);
+        this.planet = body;
 
-        // Update projectiles
-        this.projectiles = this.projectiles.filter(projectile => projectile.update());
+        // Flying up away from the old body usually means falling down towards the new one
+        this.verticalVelocity *= Vector3.Dot(oldUp, newUp);
+        this.heightAboveSurface = Math.max(this.STANDING_HEIGHT, body.getAltitude(this.mesh.position));
+
+        // Keep facing the same way as far as the new up vector allows
+        let forward = this.mesh.forward.subtract(newUp.scale(Vector3.Dot(this.mesh.forward, newUp)));
+        if (forward.length() < 0.1) {
+            forward = this.mesh.up.subtract(newUp.scale(Vector3.Dot(this.mesh.up, newUp)));
+        }
+        forward.normalize();
+        const right = Vector3.Cross(newUp, forward).normalize();
+        const orientationMatrix = Matrix.Zero();
+        Matrix.FromXYZAxesToRef(right, newUp, forward, orientationMatrix);
+        this.mesh.rotationQuaternion = Quaternion.FromRotationMatrix(orientationMatrix);
     }
 
     /**
-     * Updates interpolation for remote players to smooth out network updates
-     * @param deltaTime Time since last frame for smooth interpolation
+     * Returns the body the player is standing on or falling towards
      */
-    private updateRemoteInterpolation(deltaTime: number): void {
-        // Skip if we don't have target positions/rotations yet
-        if (!this.targetPosition) return;
-        
-        // Initialize interpolation values if needed
-        if (!this.currentInterpolatedPosition) {
-            this.currentInterpolatedPosition = this.mesh.position.clone();
-        }
-        if (this.targetRotation && !this.currentInterpolatedRotation) {
-            this.currentInterpolatedRotation = this.mesh.rotationQuaternion ? 
-                this.mesh.rotationQuaternion.clone() : Quaternion.Identity();
-        }
-        
-        // Interpolate height with velocity prediction
-        const heightDiff = this.targetHeight - this.remoteHeightAboveSurface;
-        if (Math.abs(heightDiff) > 0.001) {
-            // Use HEIGHT_SMOOTHING_FACTOR for smoother vertical movement
-            const heightDelta = heightDiff * this.HEIGHT_SMOOTHING_FACTOR;
-            
-            // Add velocity prediction for smoother movement
-            const predictedHeight = heightDelta + (this.estimatedVerticalVelocity * deltaTime * 0.5);
-            
-            // Update the interpolated height
-            this.remoteHeightAboveSurface += predictedHeight;
-            
-            // Clamp height between valid ranges
-            this.remoteHeightAboveSurface = Math.max(0.60, Math.min(this.remoteHeightAboveSurface, 3));
-        }
-        
-        // Calculate max distance to move this frame
-        const maxPositionDelta = this.POSITION_INTERPOLATION_SPEED * deltaTime;
-        
-        // Calculate direction and distance to target
-        const toTarget = this.targetPosition.subtract(this.currentInterpolatedPosition);
-        const distanceToTarget = toTarget.length();
-        
-        // Use velocity-based prediction for smoother movement
-        if (distanceToTarget > 0.0001) {
-            // Apply smoothing factor for natural movement
-            const smoothingAmount = Math.min(1.0, this.SMOOTHING_FACTOR);
-            let moveVector = toTarget.scale(smoothingAmount);
-            
-            // Add velocity prediction
-            if (this.estimatedVelocity && this.estimatedVelocity.length() > 0.001) {
-                const velocityFactor = 0.2;
-                moveVector.addInPlace(this.estimatedVelocity.scale(velocityFactor));
-            }
-            
-            // Limit movement speed
-            if (moveVector.length() > maxPositionDelta) {
-                moveVector = moveVector.normalize().scale(maxPositionDelta);
-            }
-            
-            // Apply movement
-            this.currentInterpolatedPosition.addInPlace(moveVector);
-            
-            // Update position while maintaining correct height
-            const planetRadius = this.planet.getBaseRadius();
-            const targetDistance = planetRadius + this.remoteHeightAboveSurface;
-            this.currentInterpolatedPosition = this.currentInterpolatedPosition.normalize().scale(targetDistance);
-            
-            // Apply final position
-            this.mesh.position = this.currentInterpolatedPosition.clone();
-        }
-        
-        // Handle rotation interpolation
-        if (this.currentInterpolatedRotation && this.targetRotation) {
-            const rotationFactor = Math.min(this.ROTATION_INTERPOLATION_SPEED * deltaTime, 1);
-            Quaternion.SlerpToRef(
-                this.currentInterpolatedRotation,
-                this.targetRotation,
-                rotationFactor,
-                this.currentInterpolatedRotation
-            );
-            this.mesh.rotationQuaternion = this.currentInterpolatedRotation.clone();
-        }
-        
-        // Update particle system
-        this.updateParticleSystem();
+    public getPlanet(): Planet {
+        return this.planet;
+    }
+
+    /**
+     * Returns the direction away from the player's current body, used to orient the camera
+     */
+    public getUpVector(): Vector3 {
+        return this.planet.getUpVector(this.mesh.position);
+    }
+
+    /**
+     * Returns whether the player stands on the ground, not flying or falling
+     */
+    public isGrounded(): boolean {
+        return this.heightAboveSurface <= this.STANDING_HEIGHT + 0.001 && this.verticalVelocity <= 0;
     }
 
     /**
@@ -596,6 +641,13 @@ export class Player {
         }
     }
 
+    /**
+     * Returns the player's health and armor
+     */
+    public getHealthModel(): HealthModel {
+        return this.healthModel;
+    }
+
     /**
      * Returns whether the jetpack is currently active
      */
@@ -633,20 +685,146 @@ export class Player {
     }
 
     /**
-     * Shoots a projectile and registers it with the multiplayer manager if available
+     * Adds fuel from a pickup, up to the tank's capacity
+     * @param amount Fuel units to add
+     */
+    public refuel(amount: number): void {
+        this.fuel = Math.min(this.MAX_FUEL, this.fuel + amount);
+        this.hasFuel = true;
+    }
+
+    /**
+     * Switches to another weapon, cancelling a charge in progress. Weapons that
+     * have not been picked up can't be selected.
+     * @param weaponId Weapon ID from the WeaponRegistry
+     */
+    public setWeapon(weaponId: string): void {
+        if (!this.hasWeapon(weaponId)) return;
+        this.weapon = WeaponRegistry.get(weaponId);
+        this.chargeStartTime = 0;
+    }
+
+    /**
+     * Returns whether the player carries a weapon
+     * @param weaponId Weapon ID from the WeaponRegistry
+     */
+    public hasWeapon(weaponId: string): boolean {
+        return this.ownedWeapons.has(weaponId);
+    }
+
+    /**
+     * Gives the player a weapon from a pickup and switches to it. The weapon keeps its
+     * magazine and heat state, which other clients track when checking our shots.
+     * @param weaponId Weapon ID from the WeaponRegistry
+     */
+    public giveWeapon(weaponId: string): void {
+        this.ownedWeapons.add(weaponId);
+        this.setWeapon(weaponId);
+    }
+
+    /**
+     * Returns the currently selected weapon
+     */
+    public getWeapon(): WeaponDefinition {
+        return this.weapon;
+    }
+
+    /**
+     * Returns the cooldown, ammo and heat state of a weapon, the current one by default
+     * @param weaponId Weapon ID from the WeaponRegistry
+     */
+    public getWeaponState(weaponId: string = this.weapon.id): WeaponState {
+        let state = this.weaponStates.get(weaponId);
+        if (!state) {
+            state = new WeaponState(WeaponRegistry.get(weaponId));
+            this.weaponStates.set(weaponId, state);
+        }
+        return state;
+    }
+
+    /**
+     * Starts reloading the current weapon
+     */
+    public reload(): void {
+        this.getWeaponState().reload(this.clock());
+        this.chargeStartTime = 0;
+    }
+
+    /**
+     * Called when the fire button is pressed. Charged weapons start charging,
+     * others fire right away.
+     */
+    public pullTrigger(): void {
+        if (this.weapon.chargeTime > 0) {
+            this.chargeStartTime = this.clock();
+        } else {
+            this.shoot();
+        }
+    }
+
+    /**
+     * Called every frame while the fire button is held, automatic weapons keep firing
+     */
+    public holdTrigger(): void {
+        if (this.weapon.automatic) {
+            this.shoot();
+        }
+    }
+
+    /**
+     * Called when the fire button is released. A fully charged shot is fired,
+     * releasing early cancels it.
+     */
+    public releaseTrigger(): void {
+        if (this.weapon.chargeTime > 0 && this.chargeStartTime > 0) {
+            if (this.getChargeProgress() >= 1) {
+                this.shoot();
+            }
+            this.chargeStartTime = 0;
+        }
+    }
+
+    /**
+     * Returns how far a charged weapon has charged, from 0 to 1
+     */
+    public getChargeProgress(): number {
+        if (this.weapon.chargeTime <= 0 || this.chargeStartTime === 0) return 0;
+        return Math.min(1, (this.clock() - this.chargeStartTime) / this.weapon.chargeTime);
+    }
+
+    /**
+     * Shoots a projectile with the current weapon and registers it with the multiplayer manager if available
      */
     public shoot(): void {
         // Don't allow remote players to shoot
         if (this.isRemotePlayer) return;
         
+        // Respect the weapon's fire rate, magazine and heat
+        if (!this.getWeaponState().fire(this.clock())) return;
+        
+        // Shooting gives up spawn protection
+        this.spawnProtectionUntil = 0;
+        
         // Calculate spawn position slightly in front of player
         const spawnPosition = this.mesh.position.add(this.mesh.forward.scale(0.5));
         
+        // Deviate from the aim by a random angle around the surface normal, the
+        // resulting direction is what gets sent, so every client sees the same shot
+        let direction = this.mesh.forward.clone();
+        if (this.weapon.spread > 0) {
+            const angle = (Math.random() * 2 - 1) * this.weapon.spread;
+            const normal = this.planet.getUpVector(this.mesh.position);
+            direction = Vector3.TransformNormal(direction, Matrix.RotationAxis(normal, angle));
+        }
+        
+        // Network ID of the projectile, assigned once registered with the multiplayer manager
+        let projectileId: string | null = null;
+        
         // Create projectile
         const projectile = new Projectile(
             this.scene,
             spawnPosition,
-            this.mesh.forward,
+            direction,
             this.mesh.scaling.x,
             (target: AbstractMesh) => {
                 // Handle hit
@@ -655,11 +833,19 @@ export class Player {
                     // Get player UUID from metadata to check if it's a remote player
                     const metadata = target.metadata;
                     if (metadata && metadata.playerUUID !== this.uuid) {
-                        this.onFragCallback();
+                        if (this.multiplayerManager && projectileId) {
+                            // Let the authority confirm the hit, the frag is counted from the kill event
+                            this.multiplayerManager.reportHit(projectileId, this.uuid, metadata.playerUUID);
+                        } else {
+                            this.onFragCallback();
+                        }
                     }
                 }
             },
-            this.uuid // Pass the player's UUID to the projectile
+            this.uuid, // Pass the player's UUID to the projectile
+            this.weapon,
+            this.system, // Shots stop at the terrain and follow the gravity of every body
+            this.headless
         );
         
         // Add to local projectiles array
@@ -667,10 +853,17 @@ export class Player {
         
         // Register with multiplayer manager if available
         if (this.multiplayerManager) {
-            this.multiplayerManager.addProjectile(projectile, spawnPosition, this.mesh.forward);
+            projectileId = this.multiplayerManager.addProjectile(projectile, spawnPosition, direction);
         }
     }
 
+    /**
+     * Returns the projectiles this player has in flight
+     */
+    public getProjectiles(): Projectile[] {
+        return this.projectiles.slice();
+    }
+
     /**
      * Sets the reference to the multiplayer manager
      */
@@ -686,99 +879,229 @@ export class Player {
     }
 
     /**
-     * Updates the position of a remote player from network data
+     * Applies a remote player's interpolated network state
+     * @param position World position sampled from the snapshot buffer
+     * @param rotation Orientation sampled from the snapshot buffer
+     */
+    public applyRemoteState(position: Vector3, rotation: Quaternion): void {
+        if (!this.isRemotePlayer) return;
+        
+        this.mesh.position = position;
+        this.mesh.rotationQuaternion = rotation;
+        this.updatePlayerIndex();
+    }
+
+    /**
+     * Shows or hides a remote player's spawn shield, following their network state
      */
-    public setRemotePosition(position: Vector3): void {
+    public setRemoteShield(active: boolean): void {
         if (!this.isRemotePlayer) return;
         
-        // Track position updates for debugging
-        const timeSinceLastUpdate = Date.now() - this.lastRemotePositionUpdate;
-        this.lastRemotePositionUpdate = Date.now();
+        this.remoteShieldActive = active;
+    }
+
+    /**
+     * Returns whether the player is spawn protected
+     */
+    public isSpawnProtected(): boolean {
+        if (this.isRemotePlayer) return this.remoteShieldActive;
+        return this.clock() < this.spawnProtectionUntil;
+    }
+
+    /**
+     * Respawns the player at a random position on one of the bodies
+     * @param threats Enemies and projectiles the new position should be away from
+     */
+    public respawn(threats: SpawnThreats | null = null): void {
+        // Reset velocity
+        this.verticalVelocity = 0;
         
-        // Extract height above planet surface from the position
-        const planetRadius = this.planet.getBaseRadius();
-        const positionMagnitude = position.length();
+        // Reset height
+        this.heightAboveSurface = this.STANDING_HEIGHT;
         
-        // Store previous height for velocity calculation
-        this.previousHeight = this.targetHeight;
-        this.targetHeight = positionMagnitude - planetRadius;
+        // Generate new random position, protected for a moment
+        this.spawnRandomPosition(threats);
         
-        // Calculate vertical velocity for smoother height transitions
-        if (this.previousHeight !== this.targetHeight) {
-            const heightDelta = this.targetHeight - this.previousHeight;
-            const timeDelta = Math.max(0.016, timeSinceLastUpdate / 1000); // Convert to seconds, minimum 16ms
-            this.estimatedVerticalVelocity = heightDelta / timeDelta;
-        }
+        // Reset fuel to 50%
+        this.fuel = this.MAX_FUEL * 0.5;
+        this.hasFuel = true;
         
-        // If we have a previous target position, calculate velocity
-        if (this.targetPosition && this.previousTargetPosition) {
-            // Calculate the velocity based on movement between last two positions
-            const velocity = this.targetPosition.subtract(this.previousTargetPosition);
-            
-            // Only update velocity estimate if the positions are different enough to avoid jitter
-            if (velocity.length() > 0.001) {
-                if (!this.estimatedVelocity) {
-                    this.estimatedVelocity = velocity.clone();
-                } else {
-                    // Smooth velocity changes to prevent jerky movement
-                    this.estimatedVelocity = this.estimatedVelocity.scale(0.7).add(velocity.scale(0.3));
-                }
-            }
-        }
+        // Picked up weapons are lost on death
+        this.ownedWeapons = new Set([WeaponRegistry.DEFAULT_WEAPON]);
+        this.setWeapon(WeaponRegistry.DEFAULT_WEAPON);
         
-        // Store previous target for velocity calculations
-        this.previousTargetPosition = this.targetPosition ? this.targetPosition.clone() : null;
+        // Deactivate jetpack
+        this.deactivateJetpack();
+    }
+
+    /**
+     * Applies one tick of input through the same methods the keyboard and mouse used to call
+     * @param command The tick's input
+     * @param deltaTime Tick duration in seconds
+     */
+    public applyInput(command: InputCommand, deltaTime: number): void {
+        if (this.isRemotePlayer) return;
         
-        // Set new target position for interpolation
-        this.targetPosition = position.clone();
+        this.applyMovementInput(command, deltaTime);
         
-        // Initialize current position if this is the first update
-        if (!this.currentInterpolatedPosition) {
-            this.currentInterpolatedPosition = this.mesh.position.clone();
-            this.remoteHeightAboveSurface = this.targetHeight;
-            console.log("Initialized remote player position interpolation");
+        // Pressing fires or starts charging, holding keeps automatic weapons firing
+        if (command.trigger && !this.triggerDown) {
+            this.pullTrigger();
+        } else if (command.trigger) {
+            this.holdTrigger();
+        } else if (this.triggerDown) {
+            this.releaseTrigger();
         }
+        this.triggerDown = command.trigger;
     }
 
     /**
-     * Updates the rotation of a remote player from network data
+     * Simulates a tick of input again after a correction from the authority, like applyInput()
+     * followed by update(). Shots were already fired the first time, they aren't repeated.
+     * @param command The tick's input
+     * @param deltaTime Tick duration in seconds
      */
-    public setRemoteRotation(rotation: {x: number, y: number, z: number, w: number}): void {
-        if (!this.isRemotePlayer) return;
+    public replayInput(command: InputCommand, deltaTime: number): void {
+        if (this.isRemotePlayer) return;
+        
+        this.applyMovementInput(command, deltaTime);
+        this.updatePhysics(deltaTime);
+        
+        // The next input moves along the new heading, as after a regular tick (see recordTransform)
+        this.mesh.computeWorldMatrix(true);
+    }
+
+    /**
+     * Applies the movement keys, mouse rotation and jetpack of an input
+     */
+    private applyMovementInput(command: InputCommand, deltaTime: number): void {
+        if (command.jetpack) {
+            this.activateJetpack();
+        } else {
+            this.deactivateJetpack();
+        }
         
-        // Create quaternion from received data
-        const newRotation = new Quaternion(rotation.x, rotation.y, rotation.z, rotation.w);
+        if (command.strafe < 0) this.strafeLeft(deltaTime);
+        if (command.strafe > 0) this.strafeRight(deltaTime);
+        if (command.forward > 0) this.moveForward(deltaTime);
+        if (command.forward < 0) this.moveBackward(deltaTime);
+        if (command.turn !== 0) this.rotate(command.turn);
+    }
+
+    /**
+     * Returns the state input changes, compared with the authority's state
+     */
+    public getMovementState(): MovementState {
+        const position = this.mesh.position;
+        const rotation = this.mesh.rotationQuaternion || Quaternion.Identity();
+        return {
+            position: { x: position.x, y: position.y, z: position.z },
+            rotation: { x: rotation.x, y: rotation.y, z: rotation.z, w: rotation.w },
+            body: this.system.getBodyIndex(this.planet),
+            height: this.heightAboveSurface,
+            verticalVelocity: this.verticalVelocity,
+            fuel: this.fuel
+        };
+    }
+
+    /**
+     * Moves the player to a state received from the authority
+     * @param state The state to take over
+     */
+    public setMovementState(state: MovementState): void {
+        this.planet = this.system.getBody(state.body);
+        this.mesh.position = new Vector3(state.position.x, state.position.y, state.position.z);
+        this.mesh.rotationQuaternion = new Quaternion(state.rotation.x, state.rotation.y, state.rotation.z, state.rotation.w);
+        this.mesh.computeWorldMatrix(true);
+        this.heightAboveSurface = state.height;
+        this.verticalVelocity = state.verticalVelocity;
+        this.fuel = state.fuel;
+        this.hasFuel = state.fuel > 0;
+    }
+
+    /**
+     * Keeps drawing the player where they were before a correction and fades the difference
+     * out over the next ticks. Call once the corrected state is simulated.
+     * @param before The state before the correction
+     */
+    public smoothCorrection(before: MovementState): void {
+        if (!this.mesh.rotationQuaternion) return;
         
-        // Set as target for interpolation
-        this.targetRotation = newRotation;
+        const beforePosition = new Vector3(before.position.x, before.position.y, before.position.z);
+        const beforeRotation = new Quaternion(before.rotation.x, before.rotation.y, before.rotation.z, before.rotation.w);
+        const offset = this.correctionOffset.add(beforePosition.subtract(this.mesh.position));
         
-        // Initialize current rotation if this is the first update
-        if (!this.currentInterpolatedRotation) {
-            this.currentInterpolatedRotation = this.mesh.rotationQuaternion ? 
-                this.mesh.rotationQuaternion.clone() : newRotation.clone();
-            console.log("Initialized remote player rotation interpolation");
+        if (offset.length() > this.MAX_SMOOTHED_CORRECTION) {
+            this.correctionOffset = Vector3.Zero();
+            this.correctionRotation = Quaternion.Identity();
+        } else {
+            this.correctionOffset = offset;
+            this.correctionRotation = this.correctionRotation.multiply(beforeRotation.multiply(Quaternion.Inverse(this.mesh.rotationQuaternion)));
         }
+        
+        // The corrected state is the new starting point for drawing
+        this.currentTransform = { position: this.mesh.position.clone(), rotation: this.mesh.rotationQuaternion.clone() };
+        this.previousTransform = this.currentTransform;
     }
 
     /**
-     * Respawns the player at a random position on the planet
+     * Fades out the difference left by the last correction
+     * @param deltaTime Tick duration in seconds
      */
-    public respawn(): void {
-        // Reset velocity
-        this.verticalVelocity = 0;
+    private fadeCorrection(deltaTime: number): void {
+        const remaining = Math.exp(-deltaTime / this.CORRECTION_SMOOTHING);
+        if (this.correctionOffset.length() * remaining < 0.001) {
+            this.correctionOffset = Vector3.Zero();
+            this.correctionRotation = Quaternion.Identity();
+            return;
+        }
         
-        // Reset height
-        this.heightAboveSurface = 0.60;
+        this.correctionOffset = this.correctionOffset.scale(remaining);
+        this.correctionRotation = Quaternion.Slerp(Quaternion.Identity(), this.correctionRotation, remaining);
+    }
+
+    /**
+     * Remembers the simulated position and rotation at the end of a tick
+     */
+    private recordTransform(): void {
+        if (!this.mesh.rotationQuaternion) return;
         
-        // Generate new random position
-        this.spawnRandomPosition();
+        // Projectiles of the next tick test against the new position
+        this.mesh.computeWorldMatrix(true);
         
-        // Reset fuel to 50%
-        this.fuel = this.MAX_FUEL * 0.5;
-        this.hasFuel = true;
+        this.previousTransform = this.currentTransform;
+        this.currentTransform = { position: this.mesh.position.clone(), rotation: this.mesh.rotationQuaternion.clone() };
+        if (!this.previousTransform) {
+            this.previousTransform = this.currentTransform;
+        }
+        this.updatePlayerIndex();
+    }
+
+    /**
+     * Moves the mesh back to the simulated state of the last tick, undoing the
+     * interpolation drawn in the previous frame. Call before running the frame's ticks.
+     */
+    public restoreSimulatedTransform(): void {
+        if (this.isRemotePlayer || !this.currentTransform) return;
         
-        // Deactivate jetpack
-        this.deactivateJetpack();
+        this.mesh.position = this.currentTransform.position.clone();
+        this.mesh.rotationQuaternion = this.currentTransform.rotation.clone();
+        this.mesh.computeWorldMatrix(true);
+    }
+
+    /**
+     * Draws the player and their projectiles between the last two ticks. Call after the
+     * frame's ticks, the simulation continues from restoreSimulatedTransform().
+     * @param alpha How far the frame is past the last tick, from 0 to 1
+     */
+    public interpolateTransform(alpha: number): void {
+        this.projectiles.forEach(projectile => projectile.interpolate(alpha));
+        if (this.isRemotePlayer || !this.previousTransform || !this.currentTransform) return;
+        
+        // Still drawn partly where the prediction was before the last correction
+        this.mesh.position = Vector3.Lerp(this.previousTransform.position, this.currentTransform.position, alpha).add(this.correctionOffset);
+        this.mesh.rotationQuaternion = this.correctionRotation.multiply(Quaternion.Slerp(this.previousTransform.rotation, this.currentTransform.rotation, alpha));
+        this.updateParticleSystem();
     }
 
     /**
@@ -789,6 +1112,7 @@ export class Player {
         if (this.mesh) {
             this.mesh.dispose();
         }
+        this.system.getPlayerIndex().remove(this.uuid);
         
         // Dispose of astronaut model
         if (this.astronautModel) {
@@ -800,6 +1124,11 @@ export class Player {
             this.jetpackParticles.dispose();
         }
         
+        // Dispose of the shield and its material
+        if (this.shieldMesh) {
+            this.shieldMesh.dispose(false, true);
+        }
+        
         // Dispose of all projectiles
         this.projectiles.forEach(projectile => projectile.dispose());
         this.projectiles = [];
@@ -810,22 +1139,28 @@ export class Player {
     }
 
     /**
-     * Executes an update tick for this player
-     * @param deltaTime Time since last frame for smooth movement
+     * Executes an update tick for this player. Local players and bots run one per simulation
+     * tick, after their input for the tick was applied.
+     * @param deltaTime Tick duration in seconds
      * @returns void
      */
     public update(deltaTime: number): void {
-        // Update physics or interpolation based on player type
-        if (this.isRemotePlayer) {
-            this.updateRemoteInterpolation(deltaTime);
-        } else {
+        // Update physics for the local player, remote players are positioned by the multiplayer manager
+        if (!this.isRemotePlayer) {
             this.updatePhysics(deltaTime);
+            this.recordTransform();
+            this.fadeCorrection(deltaTime);
         }
         
         // Update projectiles for all player types
-        this.projectiles = this.projectiles.filter(projectile => projectile.update());
+        this.projectiles = this.projectiles.filter(projectile => projectile.update(deltaTime));
         
         // Update particle system position for all player types
         this.updateParticleSystem();
+        
+        // Show the shield while spawn protected
+        if (this.shieldMesh) {
+            this.shieldMesh.isVisible = this.isSpawnProtected();
+        }
     }
 }
\ No newline at end of file
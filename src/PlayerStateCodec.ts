@@ -0,0 +1,204 @@
+import { Vector3 } from '@babylonjs/core';
+import { PlayerData } from './MultiplayerManager';
+import { StarSystem } from './StarSystem';
+
+// Compact player state as stored in the network store
+export interface EncodedPlayerData {
+    s: string; // Base64 bit-packed position, rotation and flags
+    t: number; // Time of the update (ms)
+}
+
+// Bit flags packed into the state
+export const PLAYER_FLAG_JETPACK = 1 << 0;
+export const PLAYER_FLAG_SHIELD = 1 << 1;
+
+/**
+ * Writes values of arbitrary bit width into a byte array (most significant bit first)
+ */
+class BitWriter {
+    private bytes: number[] = [];
+    private bitCount: number = 0;
+
+    public write(value: number, bits: number): void {
+        for (let i = bits - 1; i >= 0; i--) {
+            const byteIndex = this.bitCount >> 3;
+            if (byteIndex >= this.bytes.length) this.bytes.push(0);
+            if ((value >> i) & 1) {
+                this.bytes[byteIndex] |= 0x80 >> (this.bitCount & 7);
+            }
+            this.bitCount++;
+        }
+    }
+
+    public toBase64(): string {
+        return btoa(String.fromCharCode.apply(null, this.bytes));
+    }
+}
+
+/**
+ * Reads values written by BitWriter
+ */
+class BitReader {
+    private bytes: number[];
+    private bitCount: number = 0;
+
+    constructor(base64: string) {
+        const binary = atob(base64);
+        this.bytes = [];
+        for (let i = 0; i < binary.length; i++) {
+            this.bytes.push(binary.charCodeAt(i));
+        }
+    }
+
+    /**
+     * Returns the number of bytes in the payload
+     */
+    public getByteLength(): number {
+        return this.bytes.length;
+    }
+
+    public read(bits: number): number {
+        let value = 0;
+        for (let i = 0; i < bits; i++) {
+            const byte = this.bytes[this.bitCount >> 3] || 0;
+            const bit = (byte >> (7 - (this.bitCount & 7))) & 1;
+            value = (value << 1) | bit;
+            this.bitCount++;
+        }
+        return value >>> 0;
+    }
+}
+
+/**
+ * Encodes player state into a small quantized payload:
+ * - position as the index of the nearest body of the star system, spherical angles around
+ *   its center and height relative to its base radius
+ * - rotation as a "smallest three" quaternion
+ * - boolean state as bit flags
+ * About 11 bytes instead of ~200 bytes of JSON per update.
+ */
+export class PlayerStateCodec {
+    private readonly BODY_BITS: number = 3; // Up to 8 planets and moons
+    private readonly ANGLE_BITS: number = 16;
+    private readonly HEIGHT_BITS: number = 12;
+    private readonly MIN_HEIGHT: number = -2; // Relative to the base radius, covers deep craters
+    private readonly MAX_HEIGHT: number = 6;  // Relative to the base radius, covers jetpack flight over hills
+    private readonly QUATERNION_BITS: number = 10;
+    private readonly FLAG_BITS: number = 8;
+    private readonly QUATERNION_RANGE: number = Math.SQRT1_2; // Smallest three components are within ±1/√2
+    private readonly BYTE_LENGTH: number = 11; // Bytes of an encoded state, all fields rounded up to whole bytes
+
+    constructor(private system: StarSystem) {}
+
+    /**
+     * Encodes player state for the network store
+     */
+    public encode(data: PlayerData): EncodedPlayerData {
+        const writer = new BitWriter();
+
+        // Position in spherical coordinates around the body whose gravity dominates
+        const body = this.system.getDominantBody(new Vector3(data.position.x, data.position.y, data.position.z));
+        const center = body.getCenter();
+        const baseRadius = body.getBaseRadius();
+        const x = data.position.x - center.x;
+        const y = data.position.y - center.y;
+        const z = data.position.z - center.z;
+        const radius = Math.sqrt(x * x + y * y + z * z) || baseRadius;
+        const theta = Math.acos(Math.max(-1, Math.min(1, y / radius))); // Angle from the Y axis (0..π)
+        const phi = Math.atan2(z, x); // Angle around the Y axis (-π..π)
+        writer.write(this.system.getBodyIndex(body), this.BODY_BITS);
+        writer.write(this.quantize(theta, 0, Math.PI, this.ANGLE_BITS), this.ANGLE_BITS);
+        writer.write(this.quantize(phi, -Math.PI, Math.PI, this.ANGLE_BITS), this.ANGLE_BITS);
+        writer.write(this.quantize(radius - baseRadius, this.MIN_HEIGHT, this.MAX_HEIGHT, this.HEIGHT_BITS), this.HEIGHT_BITS);
+
+        // Rotation using the smallest three components, the largest is rebuilt from the unit length
+        const q = [data.rotation.x, data.rotation.y, data.rotation.z, data.rotation.w];
+        let largestIndex = 0;
+        for (let i = 1; i < 4; i++) {
+            if (Math.abs(q[i]) > Math.abs(q[largestIndex])) largestIndex = i;
+        }
+        const sign = q[largestIndex] < 0 ? -1 : 1; // q and -q are the same rotation, keep the largest positive
+        writer.write(largestIndex, 2);
+        for (let i = 0; i < 4; i++) {
+            if (i === largestIndex) continue;
+            writer.write(this.quantize(q[i] * sign, -this.QUATERNION_RANGE, this.QUATERNION_RANGE, this.QUATERNION_BITS), this.QUATERNION_BITS);
+        }
+
+        // Flags
+        let flags = 0;
+        if (data.isJetpackActive) flags |= PLAYER_FLAG_JETPACK;
+        if (data.isShielded) flags |= PLAYER_FLAG_SHIELD;
+        writer.write(flags, this.FLAG_BITS);
+
+        return { s: writer.toBase64(), t: data.lastUpdate };
+    }
+
+    /**
+     * Decodes player state received from the network store
+     * @returns The decoded state, or null when the payload is not in the compact format or malformed
+     */
+    public decode(encoded: EncodedPlayerData): PlayerData | null {
+        if (!encoded || typeof encoded.s !== 'string') return null;
+
+        // Anyone can write their own node, don't let a broken one throw in the player sync
+        let reader: BitReader;
+        try {
+            reader = new BitReader(encoded.s);
+        } catch (error) {
+            return null;
+        }
+        if (reader.getByteLength() !== this.BYTE_LENGTH) return null;
+
+        // Position
+        const bodyIndex = reader.read(this.BODY_BITS);
+        if (bodyIndex >= this.system.getBodies().length) return null;
+        const body = this.system.getBody(bodyIndex);
+        const center = body.getCenter();
+        const theta = this.dequantize(reader.read(this.ANGLE_BITS), 0, Math.PI, this.ANGLE_BITS);
+        const phi = this.dequantize(reader.read(this.ANGLE_BITS), -Math.PI, Math.PI, this.ANGLE_BITS);
+        const radius = body.getBaseRadius() + this.dequantize(reader.read(this.HEIGHT_BITS), this.MIN_HEIGHT, this.MAX_HEIGHT, this.HEIGHT_BITS);
+
+        // Rotation
+        const largestIndex = reader.read(2);
+        const q = [0, 0, 0, 0];
+        let sumSquares = 0;
+        for (let i = 0; i < 4; i++) {
+            if (i === largestIndex) continue;
+            q[i] = this.dequantize(reader.read(this.QUATERNION_BITS), -this.QUATERNION_RANGE, this.QUATERNION_RANGE, this.QUATERNION_BITS);
+            sumSquares += q[i] * q[i];
+        }
+        q[largestIndex] = Math.sqrt(Math.max(0, 1 - sumSquares));
+
+        // Flags
+        const flags = reader.read(this.FLAG_BITS);
+
+        return {
+            position: {
+                x: center.x + radius * Math.sin(theta) * Math.cos(phi),
+                y: center.y + radius * Math.cos(theta),
+                z: center.z + radius * Math.sin(theta) * Math.sin(phi)
+            },
+            rotation: { x: q[0], y: q[1], z: q[2], w: q[3] },
+            isJetpackActive: (flags & PLAYER_FLAG_JETPACK) !== 0,
+            isShielded: (flags & PLAYER_FLAG_SHIELD) !== 0,
+            lastUpdate: encoded.t
+        };
+    }
+
+    /**
+     * Maps a value in [min, max] to an integer with the given number of bits
+     */
+    private quantize(value: number, min: number, max: number, bits: number): number {
+        const steps = (1 << bits) - 1;
+        const normalized = (Math.max(min, Math.min(max, value)) - min) / (max - min);
+        return Math.round(normalized * steps);
+    }
+
+    /**
+     * Maps a quantized integer back to a value in [min, max]
+     */
+    private dequantize(value: number, min: number, max: number, bits: number): number {
+        const steps = (1 << bits) - 1;
+        return min + (value / steps) * (max - min);
+    }
+}
@@ -1,14 +1,37 @@
-import { Scene, Vector3, MeshBuilder, StandardMaterial, Color3, Color4, Mesh, ParticleSystem, Texture, AbstractMesh, Space, Matrix, Material } from "@babylonjs/core";
+import { Scene, Vector3, Color4, Mesh, ParticleSystem, AbstractMesh, Space, Matrix } from "@babylonjs/core";
+import { WeaponDefinition, WeaponRegistry } from './WeaponRegistry';
+import { Planet } from './Planet';
+import { StarSystem } from './StarSystem';
+import { FixedTimestep } from './FixedTimestep';
+import { EffectPool } from './EffectPool';
+
+// Where a projectile is on its orbit. Shots circle the center of the body whose gravity
+// holds them, around an axis fixed at launch, and are handed over when another body takes over.
+export interface ProjectileFlight {
+    position: Vector3;          // World position
+    axis: Vector3;              // Axis of the orbit through the body center
+    body: Planet | null;        // Body the shot orbits, null to circle the origin without terrain
+    aboveSurface: boolean;      // Terrain is only hit when the shot crosses into it from above
+}
+
+// Where a simulated flight ended, see Projectile.simulateFlight()
+export interface ProjectileFlightResult {
+    position: Vector3;          // World position at the end of the simulated time or at the impact
+    impactTime: number | null;  // Flight time in seconds when the terrain was hit, null if it wasn't
+}
 
 export class Projectile {
     private mesh: Mesh;
-    private speed: number = 1; // Reduced from 3 to 1 for better gameplay
+    private speed: number; // Angular speed (radians per second), set by the weapon
     private isActive: boolean = true;
-    private lifespan: number = 800; //ms
-    private spawnTime: number;
-    private particles: ParticleSystem;
-    private startDirection: Vector3;
+    private lifespan: number; //ms, set by the weapon
+    private flightTime: number = 0; // Simulated time since the shot was fired (ms)
+    private previousPosition: Vector3; // Position at the previous tick, rendering blends towards the current one
+    private particles: ParticleSystem | null = null; // Trail, none when headless
     private ownerUUID: string; // Store the UUID of the player who fired this projectile
+    private flight: ProjectileFlight; // Orbit and terrain state, shared with the hit authority's replay
+    private pool: EffectPool; // Mesh, material and particles are borrowed from it and returned on dispose
+    private static readonly FLIGHT_STEP: number = FixedTimestep.TICK_DURATION; // Seconds per simulation step, replays match the game's ticks
 
     constructor(
         private scene: Scene,
@@ -16,44 +39,51 @@ export class Projectile {
         private direction: Vector3,
         private playerScale: number,
         private onHit: (target: AbstractMesh) => void,
-        ownerUUID: string // The UUID of the player who created this projectile
+        ownerUUID: string, // The UUID of the player who created this projectile
+        private weapon: WeaponDefinition = WeaponRegistry.get(WeaponRegistry.DEFAULT_WEAPON), // Weapon that fired it
+        private system: StarSystem | null = null, // Bodies the shot orbits and collides with, none to circle the origin
+        private headless: boolean = false // Skip the material and effects, for simulations without rendering
     ) {
         this.ownerUUID = ownerUUID;
+        this.speed = weapon.projectileSpeed;
+        this.lifespan = weapon.lifespan;
         
-        // Create projectile mesh
-        this.mesh = MeshBuilder.CreatePlane("projectile", { size: playerScale * 0.1 }, scene);
+        // Take a projectile mesh from the pool
+        this.pool = EffectPool.get(scene);
+        this.mesh = this.pool.acquireProjectileMesh(playerScale * weapon.visuals.size);
         this.mesh.position = position.clone();
-        this.startDirection = direction.clone(); // Store initial direction for orbital movement
+
+        // Start orbiting the body the shot was fired on
+        this.flight = Projectile.startFlight(this.system, position, direction);
+        this.previousPosition = position.clone();
+
+        if (!headless) {
+            this.createVisuals(direction);
+        }
+    }
+
+    /**
+     * Gives the projectile its weapon's look and starts its trail
+     */
+    private createVisuals(direction: Vector3): void {
+        const weapon = this.weapon;
         
         // Make it always face the camera
         this.mesh.billboardMode = 7; // All axes (equivalent to BillboardMode.ALL)
 
-        // Create material with proper transparency settings
-        const material = new StandardMaterial("projectileMaterial", scene);
-        material.diffuseTexture = new Texture("assets/textures/projectile.png", scene);
-        material.diffuseTexture.hasAlpha = true;
-        material.useAlphaFromDiffuseTexture = true;
-        material.emissiveColor = new Color3(1.0, 1.0, 1.0); // Increased blue component
-        material.alpha = 0.8;
-        
-        // Enable transparency and proper blending
-        material.transparencyMode = Material.MATERIAL_ALPHABLEND;
-        material.backFaceCulling = false;
-        material.separateCullingPass = true;
-        
-        this.mesh.material = material;
+        // Projectiles with the same sprite share one material
+        this.mesh.material = this.pool.getProjectileMaterial(weapon.visuals.texture);
 
         // Initialize particle system with improved settings
-        this.particles = new ParticleSystem("projectileTrail", 100, scene);
-        this.particles.particleTexture = new Texture("assets/textures/flare.png", scene);
+        this.particles = this.pool.acquireParticles("projectileTrail", 100);
         this.particles.emitter = this.mesh;
         this.particles.minEmitBox = new Vector3(0, 0, 0);
         this.particles.maxEmitBox = new Vector3(0, 0, 0);
         
-        // Particle colors with proper alpha transition
-        this.particles.color1 = new  Color4(1, 0.5, 0, 1);//Color4(0.2, 0.4, 1.0, 1.0); // Increased blue
-        this.particles.color2 = new Color4(1, 0.1, 0, 0.8);//Color4(0.3, 0.5, 1.0, 0.8); // Increased blue
-        this.particles.colorDead = new Color4(0.2, 0.1, 0, 0);//Color4(0.3, 0.5, 1.0, 0.0);
+        // Particle colors with proper alpha transition, each weapon has its own trail
+        this.particles.color1 = weapon.visuals.trailColor1.clone();
+        this.particles.color2 = weapon.visuals.trailColor2.clone();
+        this.particles.colorDead = weapon.visuals.trailColorDead.clone();
         
         // Adjust particle size
         this.particles.minSize = 0.1;
@@ -64,7 +94,7 @@ export class Projectile {
         this.particles.maxLifeTime = 0.2;
         
         // Increase emit rate for better trail effect
-        this.particles.emitRate = 100;
+        this.particles.emitRate = weapon.visuals.trailEmitRate;
         this.particles.blendMode = ParticleSystem.BLENDMODE_ADD;
         
         // Improved particle movement
@@ -80,53 +110,56 @@ export class Projectile {
         
         // Start the particle system
         this.particles.start();
-
-        this.spawnTime = Date.now();
-
-        // Register the mesh for collisions
-        this.mesh.checkCollisions = true;
     }
 
-    public update(): boolean {
+    /**
+     * Advances the projectile by one simulation tick and checks what it hit
+     * @param deltaTime Tick duration in seconds
+     * @returns False once the projectile is gone
+     */
+    public update(deltaTime: number): boolean {
         if (!this.isActive) return false;
 
-        // Check lifespan
-        if (Date.now() - this.spawnTime > this.lifespan) {
+        // Check lifespan, splash weapons explode at the end of their flight
+        this.flightTime += deltaTime * 1000;
+        if (this.flightTime > this.lifespan) {
+            if (this.weapon.splashRadius > 0) {
+                this.explode();
+            }
             this.dispose();
             return false;
         }
 
-        // Calculate orbital movement
-        const toPlanetCenter = Vector3.Zero().subtract(this.mesh.position).normalize();
-        
-        // Calculate the orbital movement direction by crossing the initial direction with toPlanetCenter
-        // This ensures movement is always tangent to the planet surface
-        const orbitDirection = Vector3.Cross(this.startDirection, toPlanetCenter).normalize();
-        
-        // Create rotation matrix for orbital movement
-        const rotationMatrix = Matrix.RotationAxis(orbitDirection, this.speed * 0.016); // 0.016 is roughly one frame at 60fps
-        
-        // Apply rotation to position while maintaining distance from planet
-        const newPosition = Vector3.TransformCoordinates(this.mesh.position, rotationMatrix);
-        this.mesh.position = newPosition;
-
-        // Check for collisions with other players
-        const hits = this.scene.meshes.filter(mesh => {
-            // Only collide with player meshes
-            if (mesh.name !== "player" || mesh === this.mesh) return false;
-            
-            // Get player UUID metadata if it exists
-            const metadata = mesh.metadata;
-            
-            // Skip collision with the player who fired this projectile
-            if (metadata && metadata.playerUUID === this.ownerUUID) return false;
-            
-            // Check for intersection
-            return mesh.intersectsMesh(this.mesh, false);
-        });
+        // Move along the orbit of the current body
+        this.previousPosition = this.flight.position.clone();
+        const hitTerrain = Projectile.stepFlight(this.system, this.flight, this.speed, deltaTime);
+        this.mesh.position = this.flight.position.clone();
+        this.mesh.computeWorldMatrix(true); // Several ticks can run per frame, keep the bounds for hit tests current
+
+        // Stop at hills and crater walls, so terrain works as cover
+        if (hitTerrain) {
+            if (this.weapon.splashRadius > 0) {
+                this.explode();
+            } else {
+                this.createImpactEffect();
+            }
+            this.dispose();
+            return false;
+        }
+
+        // Check for collisions with other players along the whole way of this tick, so
+        // fast shots can't pass through someone between two ticks. Players are the only
+        // objects shots collide with besides the terrain, see SpatialIndex.
+        const radius = this.mesh.getBoundingInfo().boundingSphere.radius * this.mesh.scaling.x;
+        const hits = this.getPlayersAlong(this.previousPosition, this.flight.position, radius);
 
         if (hits.length > 0) {
-            this.onHit(hits[0]);
+            // Splash weapons damage everyone in range instead of just the player they touched
+            if (this.weapon.splashRadius > 0) {
+                this.explode();
+            } else {
+                this.onHit(hits[0]);
+            }
             this.dispose();
             return false;
         }
@@ -134,13 +167,210 @@ export class Projectile {
         return true;
     }
 
+    /**
+     * Returns the players a sphere touches on its way from one point to another, nearest
+     * first, apart from the owner. Only the players nearby are looked at.
+     */
+    private getPlayersAlong(start: Vector3, end: Vector3, radius: number): AbstractMesh[] {
+        // Shots circling the origin without a system have nothing to hit
+        if (!this.system) return [];
+
+        return this.system.getPlayerIndex().querySegment(start, end, radius).filter(mesh => {
+            const metadata = mesh.metadata;
+            return !metadata || metadata.playerUUID !== this.ownerUUID;
+        });
+    }
+
+    /**
+     * Draws the projectile between its last two ticks
+     * @param alpha How far the frame is past the last tick, from 0 to 1
+     */
+    public interpolate(alpha: number): void {
+        if (!this.isActive) return;
+        this.mesh.position = Vector3.Lerp(this.previousPosition, this.flight.position, alpha);
+    }
+
+    /**
+     * Returns the projectile's current world position
+     */
+    public getPosition(): Vector3 {
+        return this.mesh.position;
+    }
+
+    /**
+     * Returns whether the projectile is still flying, false once it hit something or expired
+     */
+    public isInFlight(): boolean {
+        return this.isActive;
+    }
+
+    /**
+     * Returns the UUID of the player who fired this projectile
+     */
+    public getOwnerUUID(): string {
+        return this.ownerUUID;
+    }
+
+    /**
+     * Returns the weapon that fired this projectile
+     */
+    public getWeapon(): WeaponDefinition {
+        return this.weapon;
+    }
+
+    /**
+     * Shows an explosion and reports every player within the splash radius as hit
+     */
+    private explode(): void {
+        const center = this.mesh.position.clone();
+
+        // Everyone except the owner inside the blast is hit
+        this.getPlayersAlong(center, center, this.weapon.splashRadius).forEach(mesh => this.onHit(mesh));
+
+        if (this.headless) return;
+
+        // One-off burst of particles
+        const explosion = this.pool.acquireParticles("projectileExplosion", 200);
+        explosion.emitter = center;
+        explosion.color1 = this.weapon.visuals.trailColor1.clone();
+        explosion.color2 = this.weapon.visuals.trailColor2.clone();
+        explosion.colorDead = this.weapon.visuals.trailColorDead.clone();
+        explosion.minSize = 0.1;
+        explosion.maxSize = 0.4;
+        explosion.minLifeTime = 0.2;
+        explosion.maxLifeTime = 0.5;
+        explosion.manualEmitCount = 200;
+        explosion.createSphereEmitter(this.weapon.splashRadius * 0.3);
+        explosion.minEmitPower = this.weapon.splashRadius;
+        explosion.maxEmitPower = this.weapon.splashRadius * 3;
+        explosion.blendMode = ParticleSystem.BLENDMODE_ADD;
+        explosion.targetStopDuration = 0.5; // Back to the pool once the burst faded
+        explosion.start();
+    }
+
+    /**
+     * Shows a small burst of sparks where the shot hit the terrain
+     */
+    private createImpactEffect(): void {
+        if (this.headless) return;
+
+        const impact = this.pool.acquireParticles("projectileImpact", 40);
+        impact.emitter = this.mesh.position.clone();
+        impact.color1 = this.weapon.visuals.trailColor1.clone();
+        impact.color2 = this.weapon.visuals.trailColor2.clone();
+        impact.colorDead = this.weapon.visuals.trailColorDead.clone();
+        impact.minSize = 0.05;
+        impact.maxSize = 0.2;
+        impact.minLifeTime = 0.1;
+        impact.maxLifeTime = 0.3;
+        impact.manualEmitCount = 40;
+        impact.createHemisphericEmitter(0.05);
+        impact.minEmitPower = 0.5;
+        impact.maxEmitPower = 1.5;
+        impact.blendMode = ParticleSystem.BLENDMODE_ADD;
+        impact.targetStopDuration = 0.3;
+        impact.start();
+    }
+
+    /**
+     * Starts a projectile's orbit around the body it is fired on
+     * @param system Bodies of the match, null to circle the origin without terrain
+     * @param start Spawn position of the projectile
+     * @param direction Initial direction of the projectile
+     */
+    public static startFlight(system: StarSystem | null, start: Vector3, direction: Vector3): ProjectileFlight {
+        const body = system ? system.getDominantBody(start) : null;
+        const center = body ? body.getCenter() : Vector3.Zero();
+
+        // The orbit axis stays constant while the shot travels along its great circle
+        const toPlanetCenter = center.subtract(start).normalize();
+        const axis = Vector3.Cross(direction, toPlanetCenter).normalize();
+
+        return {
+            position: start.clone(),
+            axis,
+            body,
+            // Shots fired from inside a hill fly out of it instead of stopping right away
+            aboveSurface: body ? body.isAboveSurface(start) : true
+        };
+    }
+
+    /**
+     * Advances a projectile along its orbit, switching to another body when its gravity
+     * takes over
+     * @param system Bodies of the match, null to circle the origin without terrain
+     * @param flight Flight state, updated in place
+     * @param speed Angular speed of the weapon's projectiles (radians per second)
+     * @param seconds Time to advance
+     * @returns True when the projectile flew into the terrain
+     */
+    public static stepFlight(system: StarSystem | null, flight: ProjectileFlight, speed: number, seconds: number): boolean {
+        const center = flight.body ? flight.body.getCenter() : Vector3.Zero();
+        
+        // Rotate around the body center, keeping the distance to it
+        const rotationMatrix = Matrix.RotationAxis(flight.axis, speed * seconds);
+        flight.position = center.add(Vector3.TransformCoordinates(flight.position.subtract(center), rotationMatrix));
+
+        if (!system || !flight.body) return false;
+
+        // Hand the shot over to a body that pulls harder, keeping its direction of travel
+        const body = system.getDominantBody(flight.position, flight.body);
+        if (body !== flight.body) {
+            const velocity = Vector3.Cross(flight.axis, flight.position.subtract(center));
+            const axis = Vector3.Cross(flight.position.subtract(body.getCenter()), velocity);
+            // A shot heading straight at the new body's center has no orbit around it, it stays put
+            if (axis.length() > 0.0001) {
+                flight.axis = axis.normalize();
+                flight.body = body;
+                flight.aboveSurface = body.isAboveSurface(flight.position);
+                return false;
+            }
+        }
+
+        const aboveSurface = flight.body.isAboveSurface(flight.position);
+        const hitTerrain = flight.aboveSurface && !aboveSurface;
+        flight.aboveSurface = aboveSurface;
+        return hitTerrain;
+    }
+
+    /**
+     * Replays a projectile's flight without needing a mesh, in the same steps as the
+     * projectile itself. Used by the hit authority to rewind shots when validating hits.
+     * @param system Bodies of the match, null to circle the origin without terrain
+     * @param start Spawn position of the projectile
+     * @param direction Initial direction of the projectile
+     * @param duration Flight time to simulate, in seconds
+     * @param speed Angular speed of the weapon's projectiles (radians per second)
+     * @returns Where the projectile was after the given time, or where it hit the terrain
+     */
+    public static simulateFlight(system: StarSystem | null, start: Vector3, direction: Vector3, duration: number, speed: number): ProjectileFlightResult {
+        const flight = Projectile.startFlight(system, start, direction);
+
+        let time = 0;
+        while (time < duration) {
+            const step = Math.min(Projectile.FLIGHT_STEP, duration - time);
+            time += step;
+            if (Projectile.stepFlight(system, flight, speed, step)) {
+                return { position: flight.position, impactTime: time };
+            }
+        }
+        return { position: flight.position, impactTime: null };
+    }
+
+    /**
+     * Removes the projectile and returns its mesh and trail to the pool. The trail stops
+     * emitting and goes back once its particles faded out. Calling it again does nothing.
+     */
     public dispose(): void {
+        if (!this.isActive) return;
         this.isActive = false;
-        // Give particles time to fade out naturally
-        const particleFadeTime = Math.max(this.particles.maxLifeTime * 1000, 500);
-        setTimeout(() => {
-            this.particles.dispose();
-        }, particleFadeTime);
-        this.mesh.dispose();
+
+        if (this.particles) {
+            // The mesh is hidden and reused right away, the fading trail stays where it was
+            this.particles.emitter = this.mesh.position.clone();
+            this.pool.releaseParticles(this.particles);
+            this.particles = null;
+        }
+        this.pool.releaseProjectileMesh(this.mesh);
     }
 }
\ No newline at end of file
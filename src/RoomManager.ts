@@ -0,0 +1,152 @@
+import { NetworkTransport } from './NetworkTransport';
+import { PlanetDefinition } from './Planet';
+import { MatchSettings } from './MatchManager';
+import { StarSystemDefinition } from './StarSystem';
+import { BotManager } from './BotManager';
+
+// Room settings stored under rooms/<code>/meta
+export interface RoomMeta {
+    code: string;
+    createdAt: number;
+    maxPlayers: number;
+    planet: PlanetDefinition; // Main planet of the shared world, also the whole world for older clients
+    system?: StarSystemDefinition; // Planets and moons every client in the room builds, missing in rooms created before star systems existed
+    settings?: MatchSettings; // Game mode and limits, missing in rooms created before modes existed
+}
+
+/**
+ * Creates, joins and leaves match rooms identified by short join codes.
+ * All match data for a room lives under `rooms/<code>/...`.
+ */
+export class RoomManager {
+    public static readonly ROOMS_PATH: string = 'rooms';
+    public static readonly DEFAULT_MAX_PLAYERS: number = 8;
+    private readonly CODE_LENGTH: number = 5;
+    private readonly CODE_CHARS: string = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No ambiguous 0/O or 1/I
+    private readonly EMPTY_ROOM_GRACE_PERIOD: number = 60000; // Keep new empty rooms around for a minute (ms)
+
+    constructor(private transport: NetworkTransport) {}
+
+    /**
+     * Returns the data path of a room
+     */
+    public static getRoomPath(code: string): string {
+        return `${RoomManager.ROOMS_PATH}/${code}`;
+    }
+
+    /**
+     * Normalizes user typed codes (case and whitespace)
+     */
+    public static normalizeCode(code: string): string {
+        return code.trim().toUpperCase();
+    }
+
+    /**
+     * Creates a new room with a unique join code
+     * @param system The planets and moons every player in the room will fight on
+     * @param settings Game mode and limits of the room's matches
+     * @param maxPlayers Maximum number of players allowed in the room
+     * @returns The new room's metadata
+     */
+    public async createRoom(system: StarSystemDefinition, settings: MatchSettings, maxPlayers: number = RoomManager.DEFAULT_MAX_PLAYERS): Promise<RoomMeta> {
+        // Take the opportunity to remove abandoned rooms
+        await this.cleanupEmptyRooms();
+
+        // Find a code that is not in use yet
+        let code = this.generateCode();
+        while (await this.transport.read(`${RoomManager.getRoomPath(code)}/meta`)) {
+            code = this.generateCode();
+        }
+
+        const meta: RoomMeta = {
+            code,
+            createdAt: Date.now(),
+            maxPlayers,
+            planet: system.bodies[0],
+            system,
+            settings
+        };
+
+        await this.transport.write(`${RoomManager.getRoomPath(code)}/meta`, meta);
+        console.log("Created room:", code);
+        return meta;
+    }
+
+    /**
+     * Checks that a room exists and has a free slot for the player
+     * @param code The room's join code
+     * @param playerUUID The joining player
+     * @returns The room's metadata
+     * @throws Error when the room does not exist or is full
+     */
+    public async joinRoom(code: string, playerUUID: string): Promise<RoomMeta> {
+        const roomCode = RoomManager.normalizeCode(code);
+        const meta: RoomMeta | null = await this.transport.read(`${RoomManager.getRoomPath(roomCode)}/meta`);
+        if (!meta) {
+            throw new Error(`Room ${roomCode} does not exist`);
+        }
+
+        // Humans already in the room (rejoining players don't take a new slot, bots leave to make room)
+        const players = await this.transport.read(`${RoomManager.getRoomPath(roomCode)}/players`) || {};
+        const playerCount = Object.keys(players).filter(uuid => uuid !== playerUUID && !BotManager.isBotId(uuid)).length;
+        if (playerCount >= meta.maxPlayers) {
+            throw new Error(`Room ${roomCode} is full (${meta.maxPlayers} players)`);
+        }
+
+        console.log("Joined room:", roomCode);
+        return meta;
+    }
+
+    /**
+     * Removes the player from a room and deletes the room once it is empty
+     * @param code The room's join code
+     * @param playerUUID The leaving player
+     */
+    public async leaveRoom(code: string, playerUUID: string): Promise<void> {
+        const roomPath = RoomManager.getRoomPath(code);
+        await this.transport.remove(`${roomPath}/players/${playerUUID}`);
+
+        // Delete the whole room when nobody is left
+        const players = await this.transport.read(`${roomPath}/players`);
+        if (!players) {
+            await this.transport.remove(roomPath);
+            console.log("Removed empty room:", code);
+        }
+    }
+
+    /**
+     * Removes rooms without players that are older than the grace period
+     */
+    public async cleanupEmptyRooms(): Promise<void> {
+        const rooms = await this.transport.read(RoomManager.ROOMS_PATH);
+        if (!rooms) return;
+
+        const currentTime = Date.now();
+        const updates: {[key: string]: any} = {};
+        let hasUpdates = false;
+
+        Object.entries(rooms).forEach(([code, room]: [string, any]) => {
+            const createdAt = room.meta ? room.meta.createdAt : 0;
+            if (!room.players && currentTime - createdAt > this.EMPTY_ROOM_GRACE_PERIOD) {
+                updates[code] = null; // Mark for removal
+                hasUpdates = true;
+            }
+        });
+
+        // Apply updates if needed
+        if (hasUpdates) {
+            await this.transport.update(RoomManager.ROOMS_PATH, updates);
+        }
+    }
+
+    /**
+     * Generates a random join code
+     */
+    private generateCode(): string {
+        let code = '';
+        for (let i = 0; i < this.CODE_LENGTH; i++) {
+            code += this.CODE_CHARS.charAt(Math.floor(Math.random() * this.CODE_CHARS.length));
+        }
+        return code;
+    }
+}
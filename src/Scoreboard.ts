@@ -0,0 +1,79 @@
+import { KillEventData } from './MultiplayerManager';
+
+// Per player stats derived from the room's kill events
+export interface PlayerScore {
+    uuid: string;
+    kills: number;
+    deaths: number;
+    streak: number;     // Kills since the player last died
+    bestStreak: number; // Longest streak this match
+}
+
+/**
+ * Match scoreboard. Scores are never counted locally, they are rebuilt from the
+ * kill events stored in the room so every client shows the same numbers.
+ */
+export class Scoreboard {
+    private scores: Map<string, PlayerScore> = new Map();
+
+    /**
+     * Rebuilds all scores from the full list of kill events
+     * @param kills Every kill event of the match, in any order
+     */
+    public rebuild(kills: KillEventData[]): void {
+        this.scores.clear();
+
+        // Replay in a fixed order so streaks come out the same on every client
+        const ordered = kills.slice().sort((a, b) => {
+            return a.timestamp - b.timestamp || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+        });
+
+        ordered.forEach(kill => {
+            const victim = this.getOrCreate(kill.victimUUID);
+            victim.deaths++;
+            victim.streak = 0;
+
+            // Self kills only count as deaths
+            if (kill.killerUUID === kill.victimUUID) return;
+
+            const killer = this.getOrCreate(kill.killerUUID);
+            killer.kills++;
+            killer.streak++;
+            killer.bestStreak = Math.max(killer.bestStreak, killer.streak);
+        });
+    }
+
+    /**
+     * Returns a player's score, zeroed if they have no kill events yet
+     * @param uuid The player's ID
+     */
+    public getScore(uuid: string): PlayerScore {
+        const score = this.scores.get(uuid);
+        return score ? { ...score } : { uuid, kills: 0, deaths: 0, streak: 0, bestStreak: 0 };
+    }
+
+    /**
+     * Returns all scores ranked by kills, then fewest deaths
+     * @param playerUUIDs Players to include even if they have not scored yet
+     */
+    public getRanking(playerUUIDs: string[] = []): PlayerScore[] {
+        const uuids = new Set<string>(playerUUIDs);
+        this.scores.forEach((_score, uuid) => uuids.add(uuid));
+
+        return Array.from(uuids)
+            .map(uuid => this.getScore(uuid))
+            .sort((a, b) => b.kills - a.kills || a.deaths - b.deaths || (a.uuid < b.uuid ? -1 : 1));
+    }
+
+    /**
+     * Returns the score entry for a player, creating it if needed
+     */
+    private getOrCreate(uuid: string): PlayerScore {
+        let score = this.scores.get(uuid);
+        if (!score) {
+            score = { uuid, kills: 0, deaths: 0, streak: 0, bestStreak: 0 };
+            this.scores.set(uuid, score);
+        }
+        return score;
+    }
+}
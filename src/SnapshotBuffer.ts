@@ -0,0 +1,151 @@
+import { Vector3, Quaternion } from '@babylonjs/core';
+import { Planet } from './Planet';
+
+// A remote player's state at a point in server time
+export interface PlayerSnapshot {
+    time: number;
+    position: Vector3;
+    rotation: Quaternion;
+    isJetpackActive: boolean;
+    isShielded: boolean;
+}
+
+/**
+ * Timestamped snapshot buffer for a remote player. Remote players are rendered a fixed
+ * delay in the past so that there are usually two snapshots to interpolate between;
+ * short gaps at the end of the buffer are extrapolated from the last known velocity.
+ */
+export class SnapshotBuffer {
+    private snapshots: PlayerSnapshot[] = [];
+
+    /**
+     * @param maxSnapshots Number of snapshots kept per player
+     * @param maxExtrapolation How far past the newest snapshot we extrapolate (ms)
+     * @param getBody Body whose gravity holds a player at a position. When given, players move
+     *     around that body's center and the height above its terrain is interpolated, so players
+     *     walking over hills and craters follow the ground between snapshots. Without it players
+     *     move around the origin.
+     */
+    constructor(
+        private maxSnapshots: number = 20,
+        private maxExtrapolation: number = 250,
+        private getBody: ((position: Vector3) => Planet) | null = null
+    ) {}
+
+    /**
+     * Adds a snapshot, keeping the buffer ordered by time
+     */
+    public push(snapshot: PlayerSnapshot): void {
+        // Ignore snapshots we already have
+        if (this.snapshots.some(existing => existing.time === snapshot.time)) return;
+
+        // Insert in time order, out of order delivery is rare but possible
+        let index = this.snapshots.length;
+        while (index > 0 && this.snapshots[index - 1].time > snapshot.time) {
+            index--;
+        }
+        this.snapshots.splice(index, 0, snapshot);
+
+        // Drop the oldest snapshots
+        while (this.snapshots.length > this.maxSnapshots) {
+            this.snapshots.shift();
+        }
+    }
+
+    /**
+     * Returns the newest snapshot or null
+     */
+    public getLatest(): PlayerSnapshot | null {
+        return this.snapshots.length > 0 ? this.snapshots[this.snapshots.length - 1] : null;
+    }
+
+    /**
+     * Samples the buffer at a render time
+     * @param renderTime Server time to sample at (usually now minus the interpolation delay)
+     * @returns Interpolated or extrapolated state, or null when the buffer is empty
+     */
+    public sample(renderTime: number): PlayerSnapshot | null {
+        const count = this.snapshots.length;
+        if (count === 0) return null;
+
+        const oldest = this.snapshots[0];
+        const newest = this.snapshots[count - 1];
+
+        // Before the first snapshot, hold it
+        if (renderTime <= oldest.time) {
+            return { ...oldest, time: renderTime };
+        }
+
+        // Past the newest snapshot, extrapolate for short gaps
+        if (renderTime >= newest.time) {
+            if (count < 2) {
+                return { ...newest, time: renderTime };
+            }
+            const previous = this.snapshots[count - 2];
+            const extrapolationTime = Math.min(renderTime - newest.time, this.maxExtrapolation);
+            const t = 1 + extrapolationTime / Math.max(1, newest.time - previous.time);
+            return this.interpolate(previous, newest, t, renderTime);
+        }
+
+        // Find the two snapshots surrounding the render time
+        for (let i = count - 1; i > 0; i--) {
+            const before = this.snapshots[i - 1];
+            if (before.time <= renderTime) {
+                const after = this.snapshots[i];
+                const t = (renderTime - before.time) / (after.time - before.time);
+                return this.interpolate(before, after, t, renderTime);
+            }
+        }
+
+        return { ...oldest, time: renderTime };
+    }
+
+    /**
+     * Removes all snapshots (e.g. after a respawn teleport)
+     */
+    public clear(): void {
+        this.snapshots = [];
+    }
+
+    /**
+     * Interpolates (t in 0..1) or extrapolates (t > 1) between two snapshots
+     */
+    private interpolate(from: PlayerSnapshot, to: PlayerSnapshot, t: number, time: number): PlayerSnapshot {
+        // Slerp handles rotations, clamp the extrapolated part so it cannot spin wildly
+        const rotation = Quaternion.Slerp(from.rotation, to.rotation, Math.min(t, 1.5));
+
+        return {
+            time,
+            position: this.interpolatePosition(from.position, to.position, t),
+            rotation,
+            isJetpackActive: t < 1 ? from.isJetpackActive : to.isJetpackActive,
+            isShielded: t < 1 ? from.isShielded : to.isShielded
+        };
+    }
+
+    /**
+     * Interpolates a position along the sphere of the body the player is on
+     */
+    private interpolatePosition(from: Vector3, to: Vector3, t: number): Vector3 {
+        if (!this.getBody) {
+            // Move along the sphere: interpolate direction and distance from the planet center separately
+            const direction = Vector3.Lerp(from, to, t).normalize();
+            const fromRadius = from.length();
+            const toRadius = to.length();
+            return direction.scale(fromRadius + (toRadius - fromRadius) * t);
+        }
+
+        // Flying over to another body, there is no common sphere to follow
+        const body = this.getBody(from);
+        if (this.getBody(to) !== body) {
+            return Vector3.Lerp(from, to, t);
+        }
+
+        // Interpolate the direction from the body center and the height above its terrain separately
+        const center = body.getCenter();
+        const direction = Vector3.Lerp(from.subtract(center), to.subtract(center), t).normalize();
+        const fromHeight = body.getAltitude(from);
+        const toHeight = body.getAltitude(to);
+        return center.add(direction.scale(body.getSurfaceRadius(direction) + fromHeight + (toHeight - fromHeight) * t));
+    }
+}
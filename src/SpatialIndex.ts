@@ -0,0 +1,242 @@
+import { Vector3 } from '@babylonjs/core';
+import { StarSystem } from './StarSystem';
+
+// An object in the index, seen as a sphere
+interface SpatialEntry<T> {
+    item: T;
+    position: Vector3;
+    radius: number;
+    cell: number;
+}
+
+/**
+ * Finds the objects near a point without looking at every object in the scene. Each body's
+ * surroundings are split into cells by the direction from its center, six cube faces of
+ * equal-angle cells of about the same width, so cells cover the whole sphere and any
+ * altitude. Queries only look at the cells around them. Objects are spheres, like players
+ * for the projectile hit tests.
+ *
+ * Players are the only objects projectiles collide with, so they are the only ones indexed.
+ * Terrain is hit through the bodies' heightmaps (see Projectile.stepFlight()), and pickups,
+ * the capture zone, effects, the planet mesh and the skybox are deliberately left out: shots
+ * pass through them.
+ */
+export class SpatialIndex<T> {
+    private entries: Map<string, SpatialEntry<T>> = new Map();
+    private cells: Map<number, Set<string>> = new Map(); // Cell -> IDs of the objects in it
+    private cellsPerEdge: number[]; // Cells along each cube face edge, per body
+    private firstCell: number[]; // Number of the first cell of each body
+    private maxRadius: number = 0; // Largest object, queries reach this much further
+    private maxDistance: number[]; // Furthest any object got from each body's center
+    private readonly CELL_SIZE: number = 1.5; // Approximate cell width at the base radius, a few players fit in one
+
+    /**
+     * @param system Bodies the objects are around
+     */
+    constructor(private system: StarSystem) {
+        const definitions = system.getDefinition().bodies;
+        this.cellsPerEdge = definitions.map(body => Math.max(1, Math.ceil(Math.PI / 2 * body.radius / this.CELL_SIZE)));
+
+        // Cells of all bodies are numbered one after the other
+        this.maxDistance = definitions.map(() => 0);
+        this.firstCell = [];
+        let cellCount = 0;
+        this.cellsPerEdge.forEach(edge => {
+            this.firstCell.push(cellCount);
+            cellCount += 6 * edge * edge;
+        });
+    }
+
+    /**
+     * Adds an object or moves one that is already in the index
+     * @param id Unique ID of the object
+     * @param item The object, returned by queries
+     * @param position Center of the object
+     * @param radius Radius of the object's bounding sphere
+     */
+    public set(id: string, item: T, position: Vector3, radius: number): void {
+        const body = this.system.getDominantBody(position);
+        const index = this.system.getBodyIndex(body);
+        const offset = position.subtract(body.getCenter());
+        const cell = this.getCell(index, offset);
+        this.maxDistance[index] = Math.max(this.maxDistance[index], offset.length());
+
+        const entry = this.entries.get(id);
+
+        if (entry && entry.cell !== cell) {
+            this.removeFromCell(id, entry.cell);
+        }
+        if (!entry || entry.cell !== cell) {
+            let ids = this.cells.get(cell);
+            if (!ids) {
+                ids = new Set();
+                this.cells.set(cell, ids);
+            }
+            ids.add(id);
+        }
+
+        this.entries.set(id, { item, position: position.clone(), radius, cell });
+        this.maxRadius = Math.max(this.maxRadius, radius);
+    }
+
+    /**
+     * Removes an object
+     * @param id ID the object was added with
+     */
+    public remove(id: string): void {
+        const entry = this.entries.get(id);
+        if (!entry) return;
+
+        this.removeFromCell(id, entry.cell);
+        this.entries.delete(id);
+    }
+
+    /**
+     * Returns the objects touching a sphere
+     * @param center Center of the sphere
+     * @param radius Radius of the sphere
+     */
+    public queryRadius(center: Vector3, radius: number): T[] {
+        return this.querySegment(center, center, radius);
+    }
+
+    /**
+     * Returns the objects touched by a sphere moving along a segment, nearest to the start
+     * first. Testing the whole path instead of the end point means fast objects can't skip
+     * through something between two ticks.
+     * @param start Where the sphere starts
+     * @param end Where the sphere ends
+     * @param radius Radius of the moving sphere
+     */
+    public querySegment(start: Vector3, end: Vector3, radius: number): T[] {
+        const hits: { item: T, along: number }[] = [];
+        const segment = end.subtract(start);
+        const lengthSquared = segment.lengthSquared();
+
+        this.getCellsAlong(start, end, radius + this.maxRadius).forEach(cell => {
+            const ids = this.cells.get(cell);
+            if (!ids) return;
+
+            ids.forEach(id => {
+                const entry = this.entries.get(id)!;
+
+                // Closest point of the segment to the object's center
+                const along = lengthSquared > 0 ? Math.max(0, Math.min(1, Vector3.Dot(entry.position.subtract(start), segment) / lengthSquared)) : 0;
+                const closest = start.add(segment.scale(along));
+                if (Vector3.Distance(closest, entry.position) <= radius + entry.radius) {
+                    hits.push({ item: entry.item, along });
+                }
+            });
+        });
+
+        return hits.sort((a, b) => a.along - b.along).map(hit => hit.item);
+    }
+
+    /**
+     * Returns every cell within a distance of a segment. The segment is covered by balls
+     * around points along it, and each ball by the cells in the cone it takes up seen from
+     * the center of any body close enough to hold objects there.
+     */
+    private getCellsAlong(start: Vector3, end: Vector3, reach: number): Set<number> {
+        const cells = new Set<number>();
+
+        // Balls a bit larger than the reach, one reach apart, contain the whole swept volume
+        const length = Vector3.Distance(start, end);
+        const pointCount = Math.ceil(length / Math.max(reach, 0.05));
+        const ballRadius = reach * 1.2;
+
+        for (let p = 0; p <= pointCount; p++) {
+            const point = pointCount > 0 ? Vector3.Lerp(start, end, p / pointCount) : start;
+
+            this.system.getBodies().forEach((body, index) => {
+                const offset = point.subtract(body.getCenter());
+                const distance = offset.length();
+                if (distance - ballRadius > this.maxDistance[index]) return;
+
+                // Anything in the ball is within this angle of the point, seen from the center
+                const angle = distance > ballRadius ? Math.asin(ballRadius / distance) : Math.PI;
+                this.addCellsInCone(cells, index, offset.scale(1 / (distance || 1)), angle);
+            });
+        }
+
+        return cells;
+    }
+
+    /**
+     * Adds the cells of a body within an angle of a direction. Directions are sampled
+     * closer than the narrowest cell, so no cell in between is skipped.
+     */
+    private addCellsInCone(cells: Set<number>, index: number, direction: Vector3, angle: number): void {
+        const edge = this.cellsPerEdge[index];
+
+        // Wide cones are faster to take whole
+        if (angle > Math.PI / 4) {
+            const first = this.firstCell[index];
+            this.cells.forEach((_, cell) => {
+                if (cell >= first && cell < first + 6 * edge * edge) {
+                    cells.add(cell);
+                }
+            });
+            return;
+        }
+
+        // Equal-angle cells are at least about 70% of their nominal angle wide, sample at half of it
+        const step = Math.PI / 2 / edge * 0.5;
+        const extent = Math.tan(angle);
+        const steps = Math.max(1, Math.ceil(extent / step));
+        const spacing = extent / steps;
+
+        // Sample a square on the plane touching the unit sphere at the direction
+        const tangent = Vector3.Cross(direction, Math.abs(direction.y) < 0.9 ? Vector3.Up() : Vector3.Right()).normalize();
+        const bitangent = Vector3.Cross(direction, tangent);
+        for (let i = -steps; i <= steps; i++) {
+            for (let j = -steps; j <= steps; j++) {
+                cells.add(this.getCell(index, direction.add(tangent.scale(i * spacing)).add(bitangent.scale(j * spacing))));
+            }
+        }
+    }
+
+    /**
+     * Returns the number of a body's cell in a direction from its center
+     * @param index Index of the body
+     * @param d Direction from the body's center, any length
+     */
+    private getCell(index: number, d: Vector3): number {
+        const edge = this.cellsPerEdge[index];
+
+        // The cube face the direction points at, and the coordinates on it
+        const ax = Math.abs(d.x), ay = Math.abs(d.y), az = Math.abs(d.z);
+        let face: number, u: number, v: number;
+        if (ax >= ay && ax >= az) {
+            face = d.x >= 0 ? 0 : 1;
+            u = d.y / (ax || 1);
+            v = d.z / (ax || 1);
+        } else if (ay >= az) {
+            face = d.y >= 0 ? 2 : 3;
+            u = d.x / ay;
+            v = d.z / ay;
+        } else {
+            face = d.z >= 0 ? 4 : 5;
+            u = d.x / az;
+            v = d.y / az;
+        }
+
+        // Equal angles instead of equal distances on the cube, so cells are about the same size on the sphere
+        const column = Math.min(edge - 1, Math.floor((Math.atan(u) / (Math.PI / 4) + 1) / 2 * edge));
+        const row = Math.min(edge - 1, Math.floor((Math.atan(v) / (Math.PI / 4) + 1) / 2 * edge));
+        return this.firstCell[index] + (face * edge + row) * edge + column;
+    }
+
+    /**
+     * Takes an object out of a cell
+     */
+    private removeFromCell(id: string, cell: number): void {
+        const ids = this.cells.get(cell);
+        if (!ids) return;
+
+        ids.delete(id);
+        if (ids.size === 0) {
+            this.cells.delete(cell);
+        }
+    }
+}
@@ -0,0 +1,92 @@
+import { Vector3 } from '@babylonjs/core';
+import { Planet } from './Planet';
+import { StarSystem } from './StarSystem';
+
+// A place to spawn: a body and the direction from its center
+export interface SpawnPoint {
+    body: Planet;
+    direction: Vector3;     // Unit vector from the body's center
+}
+
+// What a spawning player should be kept away from
+export interface SpawnThreats {
+    enemies: Vector3[];     // Positions of living enemies
+    projectiles: Vector3[]; // Positions of projectiles in flight, apart from the player's own
+}
+
+/**
+ * Picks spawn points spread evenly over the bodies' surfaces. Several random candidates
+ * are scored by how far they are from enemies and projectiles, and the safest one wins,
+ * so players don't respawn into fire.
+ */
+export class SpawnSelector {
+    private readonly CANDIDATES: number = 12; // Random points scored per spawn
+    private readonly SAFE_DISTANCE: number = 8; // Threats further away than this don't lower the score
+    private readonly PROJECTILE_WEIGHT: number = 0.5; // Projectiles matter less than enemies, they fly past quickly
+
+    constructor(private system: StarSystem) {}
+
+    /**
+     * Returns a random spawn point, as far as possible from the threats
+     * @param threats Enemies and projectiles to avoid, none for a purely random spawn
+     * @param height Height above the terrain the player stands at
+     */
+    public pick(threats: SpawnThreats | null, height: number): SpawnPoint {
+        let best: SpawnPoint | null = null;
+        let bestScore = -Infinity;
+
+        const candidates = threats ? this.CANDIDATES : 1;
+        for (let i = 0; i < candidates; i++) {
+            const candidate = this.randomPoint();
+            const score = threats ? this.scoreSpawn(this.getPosition(candidate, height), threats) : 0;
+            if (score > bestScore) {
+                best = candidate;
+                bestScore = score;
+            }
+        }
+
+        return best!;
+    }
+
+    /**
+     * Returns the world position of a spawn point
+     * @param spawn The spawn point
+     * @param height Height above the terrain
+     */
+    public getPosition(spawn: SpawnPoint, height: number): Vector3 {
+        const radius = spawn.body.getSurfaceRadius(spawn.direction) + height;
+        return spawn.body.getCenter().add(spawn.direction.scale(radius));
+    }
+
+    /**
+     * Scores a position, higher is safer. The nearest enemy and the nearest projectile
+     * count, each up to the safe distance.
+     */
+    private scoreSpawn(position: Vector3, threats: SpawnThreats): number {
+        return this.getClearance(position, threats.enemies) +
+            this.getClearance(position, threats.projectiles) * this.PROJECTILE_WEIGHT;
+    }
+
+    /**
+     * Returns the distance to the nearest of the given positions, capped at the safe distance
+     */
+    private getClearance(position: Vector3, others: Vector3[]): number {
+        let nearest = this.SAFE_DISTANCE;
+        others.forEach(other => {
+            nearest = Math.min(nearest, Vector3.Distance(position, other));
+        });
+        return nearest;
+    }
+
+    /**
+     * Returns a point on a random body. The direction is uniform over the sphere,
+     * picking the angle from the pole uniformly would cluster spawns at the poles.
+     */
+    private randomPoint(): SpawnPoint {
+        const bodies = this.system.getBodies();
+        return {
+            body: bodies[Math.floor(Math.random() * bodies.length)],
+            direction: StarSystem.randomDirection()
+        };
+    }
+}
@@ -0,0 +1,141 @@
+import { Scene, Vector3, AbstractMesh } from '@babylonjs/core';
+import { Planet, PlanetDefinition } from './Planet';
+import { SpatialIndex } from './SpatialIndex';
+
+// Every body of a match's star system, stored with the room. The first body is the
+// main planet at the origin, the others are moons placed around it.
+export interface StarSystemDefinition {
+    bodies: PlanetDefinition[];
+}
+
+/**
+ * The planets and moons of a match. Each body has its own gravity well; players and
+ * projectiles belong to whichever body pulls hardest where they are, so flying high
+ * enough with the jetpack carries a player over to a neighbouring moon.
+ */
+export class StarSystem {
+    private bodies: Planet[];
+    private players: SpatialIndex<AbstractMesh>; // Player meshes by where they are, the only objects projectiles collide with besides the terrain
+    private readonly SWITCH_MARGIN: number = 1.1; // Another body must pull this much harder to take over, avoids flickering at the boundary
+
+    constructor(scene: Scene, private definition: StarSystemDefinition) {
+        this.bodies = definition.bodies.map(body => new Planet(scene, body));
+        this.players = new SpatialIndex(this);
+    }
+
+    /**
+     * Creates a random system: the main planet and one or two moons, spaced so the
+     * jetpack can cross the gap between them
+     */
+    public static createRandomDefinition(): StarSystemDefinition {
+        const main = Planet.createRandomDefinition();
+        const bodies: PlanetDefinition[] = [main];
+
+        const moonCount = 1 + Math.floor(Math.random() * 2);
+        const firstDirection = StarSystem.randomDirection();
+        for (let i = 0; i < moonCount; i++) {
+            const moon = Planet.createRandomDefinition();
+            moon.radius = 1.8 + Math.random() * 0.7;
+            moon.craterDepth = main.craterDepth * moon.radius / main.radius; // Keep craters in proportion
+            moon.textureSize = Math.min(moon.textureSize, 512);
+            moon.gravity = 0.8; // Lighter gravity, jumps go higher
+
+            // Further moons go on the opposite side, so they never overlap
+            const gap = 2.5 + Math.random() * 0.5; // Surface to surface
+            const direction = i === 0 ? firstDirection : firstDirection.scale(-1).add(StarSystem.randomDirection().scale(0.3)).normalize();
+            const center = direction.scale(main.radius + moon.radius + gap);
+            moon.center = { x: center.x, y: center.y, z: center.z };
+            bodies.push(moon);
+        }
+
+        return { bodies };
+    }
+
+    /**
+     * Wraps a single planet, used for rooms created before star systems existed
+     */
+    public static fromPlanet(planet: PlanetDefinition): StarSystemDefinition {
+        return { bodies: [planet] };
+    }
+
+    /**
+     * Builds the meshes of every body
+     */
+    public create(): void {
+        this.bodies.forEach(body => body.create());
+    }
+
+    /**
+     * Returns the definition the system was built from
+     */
+    public getDefinition(): StarSystemDefinition {
+        return { bodies: this.definition.bodies.map(body => ({ ...body })) };
+    }
+
+    /**
+     * Returns every body, the main planet first
+     */
+    public getBodies(): Planet[] {
+        return this.bodies.slice();
+    }
+
+    /**
+     * Returns the main planet at the origin
+     */
+    public getMainBody(): Planet {
+        return this.bodies[0];
+    }
+
+    /**
+     * Returns the body at an index of getBodies(), or the main planet for unknown indices
+     */
+    public getBody(index: number): Planet {
+        return this.bodies[index] || this.bodies[0];
+    }
+
+    /**
+     * Returns the index of a body in getBodies()
+     */
+    public getBodyIndex(body: Planet): number {
+        return Math.max(0, this.bodies.indexOf(body));
+    }
+
+    /**
+     * Returns the index of the players around the bodies. Players keep their entry up to
+     * date, projectiles query it for what they hit.
+     */
+    public getPlayerIndex(): SpatialIndex<AbstractMesh> {
+        return this.players;
+    }
+
+    /**
+     * Returns the body whose gravity dominates at a point
+     * @param position World position
+     * @param current Body the object currently belongs to. It is kept unless another body
+     *     pulls clearly harder, so objects near the boundary don't switch back and forth.
+     */
+    public getDominantBody(position: Vector3, current: Planet | null = null): Planet {
+        let dominant = current || this.bodies[0];
+        let strongest = dominant.getGravityAt(position) * (current ? this.SWITCH_MARGIN : 1);
+
+        this.bodies.forEach(body => {
+            const gravity = body.getGravityAt(position);
+            if (gravity > strongest) {
+                dominant = body;
+                strongest = gravity;
+            }
+        });
+
+        return dominant;
+    }
+
+    /**
+     * Returns a uniformly distributed random unit vector
+     */
+    public static randomDirection(): Vector3 {
+        const z = Math.random() * 2 - 1;
+        const angle = Math.random() * Math.PI * 2;
+        const r = Math.sqrt(1 - z * z);
+        return new Vector3(r * Math.cos(angle), r * Math.sin(angle), z);
+    }
+}
@@ -0,0 +1,160 @@
+import { Color4 } from "@babylonjs/core";
+
+// How a weapon's projectiles look
+export interface WeaponVisuals {
+    size: number;           // Projectile sprite size, relative to the player scale
+    texture: string;        // Projectile sprite texture
+    trailColor1: Color4;    // Trail particle colors
+    trailColor2: Color4;
+    trailColorDead: Color4;
+    trailEmitRate: number;  // Trail particles per second
+}
+
+// Everything that defines how a weapon behaves, shared by every client and the authority
+export interface WeaponDefinition {
+    id: string;
+    name: string;
+    damage: number;             // Damage per hit, before armor
+    fireInterval: number;       // Minimum time between shots (ms)
+    automatic: boolean;         // Keeps firing while the trigger is held
+    chargeTime: number;         // Time the trigger must be held before the shot is released (ms), 0 for none
+    spread: number;             // Maximum random deviation from the aim direction (radians)
+    projectileSpeed: number;    // Angular speed around the planet (radians per second)
+    lifespan: number;           // Projectile flight time (ms)
+    splashRadius: number;       // Explosion radius damaging everyone nearby, 0 for direct hits only
+    magazineSize: number;       // Shots before reloading, 0 for weapons limited by heat instead
+    reloadTime: number;         // Time to refill the magazine (ms)
+    heatPerShot: number;        // Heat added by each shot, 0 for weapons without heat (see WeaponState)
+    coolingRate: number;        // Heat lost per second
+    visuals: WeaponVisuals;
+}
+
+/**
+ * The weapons available in the game. Projectiles only carry a weapon ID over the
+ * network, every client looks up the same definition here.
+ */
+export class WeaponRegistry {
+    public static readonly DEFAULT_WEAPON: string = 'blaster';
+
+    private static readonly WEAPONS: WeaponDefinition[] = [
+        {
+            id: 'blaster',
+            name: 'Blaster',
+            damage: 40,
+            fireInterval: 400,
+            automatic: false,
+            chargeTime: 0,
+            spread: 0,
+            projectileSpeed: 1,
+            lifespan: 800,
+            splashRadius: 0,
+            magazineSize: 10,
+            reloadTime: 1500,
+            heatPerShot: 0,
+            coolingRate: 0,
+            visuals: {
+                size: 0.1,
+                texture: "assets/textures/projectile.png",
+                trailColor1: new Color4(1, 0.5, 0, 1),
+                trailColor2: new Color4(1, 0.1, 0, 0.8),
+                trailColorDead: new Color4(0.2, 0.1, 0, 0),
+                trailEmitRate: 100
+            }
+        },
+        {
+            id: 'rapid',
+            name: 'Rapid Fire',
+            damage: 12,
+            fireInterval: 100,
+            automatic: true,
+            chargeTime: 0,
+            spread: 0.08,
+            projectileSpeed: 1.4,
+            lifespan: 600,
+            splashRadius: 0,
+            magazineSize: 0,
+            reloadTime: 0,
+            heatPerShot: 9,
+            coolingRate: 35,
+            visuals: {
+                size: 0.06,
+                texture: "assets/textures/projectile.png",
+                trailColor1: new Color4(1, 1, 0.2, 1),
+                trailColor2: new Color4(1, 0.8, 0, 0.8),
+                trailColorDead: new Color4(0.2, 0.2, 0, 0),
+                trailEmitRate: 60
+            }
+        },
+        {
+            id: 'sniper',
+            name: 'Sniper',
+            damage: 90,
+            fireInterval: 1200,
+            automatic: false,
+            chargeTime: 700,
+            spread: 0,
+            projectileSpeed: 2.5,
+            lifespan: 1000,
+            splashRadius: 0,
+            magazineSize: 4,
+            reloadTime: 2200,
+            heatPerShot: 0,
+            coolingRate: 0,
+            visuals: {
+                size: 0.08,
+                texture: "assets/textures/projectile.png",
+                trailColor1: new Color4(0.3, 0.8, 1, 1),
+                trailColor2: new Color4(0.1, 0.4, 1, 0.8),
+                trailColorDead: new Color4(0, 0.1, 0.3, 0),
+                trailEmitRate: 200
+            }
+        },
+        {
+            id: 'grenade',
+            name: 'Grenade',
+            damage: 60,
+            fireInterval: 900,
+            automatic: false,
+            chargeTime: 0,
+            spread: 0,
+            projectileSpeed: 0.6,
+            lifespan: 1200,
+            splashRadius: 1.2,
+            magazineSize: 3,
+            reloadTime: 2500,
+            heatPerShot: 0,
+            coolingRate: 0,
+            visuals: {
+                size: 0.15,
+                texture: "assets/textures/projectile.png",
+                trailColor1: new Color4(0.4, 1, 0.2, 1),
+                trailColor2: new Color4(0.1, 0.6, 0, 0.8),
+                trailColorDead: new Color4(0, 0.2, 0, 0),
+                trailEmitRate: 80
+            }
+        }
+    ];
+
+    /**
+     * Returns a weapon definition, falling back to the default weapon for unknown IDs
+     * @param id Weapon ID
+     */
+    public static get(id: string | undefined): WeaponDefinition {
+        const weapon = WeaponRegistry.WEAPONS.filter(definition => definition.id === id)[0];
+        return weapon || WeaponRegistry.WEAPONS[0];
+    }
+
+    /**
+     * Returns all weapons, in the order of their number keys
+     */
+    public static getAll(): WeaponDefinition[] {
+        return WeaponRegistry.WEAPONS.slice();
+    }
+
+    /**
+     * Returns the longest projectile lifespan of any weapon (ms)
+     */
+    public static getMaxLifespan(): number {
+        return Math.max(...WeaponRegistry.WEAPONS.map(weapon => weapon.lifespan));
+    }
+}
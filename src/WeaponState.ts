@@ -0,0 +1,160 @@
+import { WeaponDefinition } from './WeaponRegistry';
+
+/**
+ * Fire rate, magazine and heat state of one weapon. The shooter uses it to limit its own
+ * fire, and receivers replay every incoming shot through the same rules (with some
+ * tolerance for clock jitter) to reject projectiles a modified client spammed.
+ * All times are in milliseconds and only ever move forward.
+ */
+export class WeaponState {
+    public static readonly MAX_HEAT: number = 100; // The weapon overheats when heat reaches this
+    public static readonly RECOVERED_HEAT: number = 25; // An overheated weapon fires again once cooled to this
+
+    private lastShotTime: number = -Infinity;
+    private ammo: number; // Shots left in the magazine
+    private reloadEndTime: number = 0; // When the reload in progress completes, 0 when not reloading
+    private heat: number = 0; // Heat at lastHeatTime
+    private lastHeatTime: number = 0;
+    private overheated: boolean = false;
+
+    /**
+     * @param weapon The weapon's definition
+     * @param tolerance Slack applied to every time limit (ms), used when replaying remote shots
+     * @param assumeReloads Refill the magazine after any pause long enough to reload. Receivers
+     *     don't see reloads, so they have to assume the shooter reloaded whenever it could have.
+     */
+    constructor(
+        private weapon: WeaponDefinition,
+        private tolerance: number = 0,
+        private assumeReloads: boolean = false
+    ) {
+        this.ammo = weapon.magazineSize;
+    }
+
+    /**
+     * Returns whether the weapon could fire at the given time
+     * @param time Time of the shot
+     */
+    public canFire(time: number): boolean {
+        this.refresh(time);
+
+        if (time - this.lastShotTime < this.weapon.fireInterval - this.tolerance) return false;
+        if (this.isReloading(time)) return false;
+        if (this.weapon.magazineSize > 0 && this.ammo <= 0) return false;
+        if (this.overheated) return false;
+        return true;
+    }
+
+    /**
+     * Fires a shot if the weapon allows it, using up ammo or adding heat
+     * @param time Time of the shot
+     * @returns False if the shot is not allowed
+     */
+    public fire(time: number): boolean {
+        if (!this.canFire(time)) return false;
+
+        this.lastShotTime = time;
+
+        // Magazine weapons reload automatically once empty
+        if (this.weapon.magazineSize > 0) {
+            this.ammo--;
+            if (this.ammo <= 0) {
+                this.reload(time);
+            }
+        }
+
+        // Heat weapons lock up until they cool down when overheated
+        if (this.weapon.heatPerShot > 0) {
+            const heat = this.heat + this.weapon.heatPerShot;
+            if (heat >= WeaponState.MAX_HEAT + this.getHeatSlack()) {
+                this.overheated = true;
+            }
+            this.heat = Math.min(WeaponState.MAX_HEAT, heat);
+        }
+
+        return true;
+    }
+
+    /**
+     * Starts reloading the magazine, unless it is full or already reloading
+     * @param time Time the reload starts
+     */
+    public reload(time: number): void {
+        this.refresh(time);
+        if (this.weapon.magazineSize <= 0 || this.ammo >= this.weapon.magazineSize || this.isReloading(time)) return;
+
+        this.reloadEndTime = time + Math.max(0, this.weapon.reloadTime - this.tolerance);
+    }
+
+    /**
+     * Returns the shots left in the magazine
+     */
+    public getAmmo(time: number): number {
+        this.refresh(time);
+        return this.ammo;
+    }
+
+    /**
+     * Returns whether a reload is in progress
+     */
+    public isReloading(time: number): boolean {
+        return this.reloadEndTime > 0 && time < this.reloadEndTime;
+    }
+
+    /**
+     * Returns how far the current reload has progressed, from 0 to 1
+     */
+    public getReloadProgress(time: number): number {
+        if (!this.isReloading(time)) return 0;
+        return 1 - (this.reloadEndTime - time) / this.weapon.reloadTime;
+    }
+
+    /**
+     * Returns the current heat, from 0 to MAX_HEAT
+     */
+    public getHeat(time: number): number {
+        this.refresh(time);
+        return this.heat;
+    }
+
+    /**
+     * Returns whether the weapon is locked up until it cools down
+     */
+    public isOverheated(time: number): boolean {
+        this.refresh(time);
+        return this.overheated;
+    }
+
+    /**
+     * Brings reload and cooling up to date
+     */
+    private refresh(time: number): void {
+        // Complete a finished reload
+        if (this.reloadEndTime > 0 && time >= this.reloadEndTime) {
+            this.ammo = this.weapon.magazineSize;
+            this.reloadEndTime = 0;
+        }
+
+        // The shooter may have reloaded during a long enough pause
+        if (this.assumeReloads && time - this.lastShotTime >= this.weapon.reloadTime - this.tolerance) {
+            this.ammo = this.weapon.magazineSize;
+            this.reloadEndTime = 0;
+        }
+
+        // Cool down since the last update
+        if (time > this.lastHeatTime) {
+            this.heat = Math.max(0, this.heat - (time - this.lastHeatTime) / 1000 * this.weapon.coolingRate);
+            this.lastHeatTime = time;
+        }
+        if (this.overheated && this.heat <= WeaponState.RECOVERED_HEAT + this.getHeatSlack()) {
+            this.overheated = false;
+        }
+    }
+
+    /**
+     * Returns the heat that cools off during the time tolerance, added to the heat limits
+     */
+    private getHeatSlack(): number {
+        return this.tolerance / 1000 * this.weapon.coolingRate;
+    }
+}
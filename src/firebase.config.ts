@@ -1,6 +1,6 @@
 import { initializeApp } from 'firebase/app';
-import { getDatabase } from 'firebase/database';
-import { getAuth } from 'firebase/auth';
+import { getDatabase, connectDatabaseEmulator } from 'firebase/database';
+import { getAuth, connectAuthEmulator } from 'firebase/auth';
 import { getAnalytics } from "firebase/analytics";
 
 const firebaseConfig = {
@@ -18,4 +18,10 @@ const firebaseConfig = {
 export const app = initializeApp(firebaseConfig);
 export const analytics = getAnalytics(app);
 export const database = getDatabase(app);
-export const auth = getAuth(app);
\ No newline at end of file
+export const auth = getAuth(app);
+
+// Point at the local emulators to exercise the security rules without touching production data
+if (process.env.FIREBASE_USE_EMULATOR === 'true') {
+    connectDatabaseEmulator(database, 'localhost', 9000);
+    connectAuthEmulator(auth, 'http://localhost:9099');
+}
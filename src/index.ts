@@ -1,16 +1,29 @@
 import { Engine, Scene, Vector3, HemisphericLight, DirectionalLight, ArcRotateCamera, Mesh, Matrix, Color3, Space, MeshBuilder, AxesViewer, StandardMaterial, CubeTexture, Texture } from "@babylonjs/core";
 import * as GUI from "@babylonjs/gui";
 import "@babylonjs/loaders/glTF";
-import { Planet } from './Planet';
+import { StarSystem } from './StarSystem';
 import { Player } from './Player';
-import { MultiplayerManager } from './MultiplayerManager';
+import { MultiplayerManager, KillEventData } from './MultiplayerManager';
+import { NetworkTransport } from './NetworkTransport';
+import { FirebaseTransport } from './FirebaseTransport';
+import { LocalTransport } from './LocalTransport';
+import { RoomManager, RoomMeta } from './RoomManager';
+import { AuthService } from './AuthService';
+import { HealthModel } from './HealthModel';
+import { WeaponRegistry } from './WeaponRegistry';
+import { WeaponState } from './WeaponState';
+import { MatchManager, MatchSettings } from './MatchManager';
+import { FixedTimestep } from './FixedTimestep';
+import { ClientPrediction } from './ClientPrediction';
 
 class Game {
     private canvas: HTMLCanvasElement;
     private engine: Engine;
     private scene: Scene;
-    private planet: Planet;
-    private player: Player;
+    private system!: StarSystem;
+    private player!: Player;
+    private playerUUID: string = Player.generateUUID(); // Identity of the local player
+    private isReady: boolean = false; // Set once the room is joined and the world is built
     private camera!: ArcRotateCamera;
     private isThirdPersonMode: boolean = true;
     private planetOrbitHeight: number = 10;
@@ -20,15 +33,33 @@ class Game {
     private debugMode: boolean = false;
     private axesViewer: AxesViewer | null = null; // Player Debug Axis
     private lastFrameTime: number = Date.now();
+    private timestep: FixedTimestep = new FixedTimestep((deltaTime) => this.tick(deltaTime)); // Gameplay runs in fixed ticks, frames only render
     private _keyboardInitialized: boolean = false;
     private _keysPressed: Set<string> = new Set<string>();
     // private _0KeyWasPressed: boolean = false; // Flag to track if x key was already pressed
-    private frags: number = 0; // Track player's frags
     private fpsText!: GUI.TextBlock; // FPS counter
     private fragsText!: GUI.TextBlock; // Frags counter
+    private weaponText!: GUI.TextBlock; // Selected weapon and charge
+    private triggerHeld: boolean = false; // Whether the fire button is held down
+    private triggerPressed: boolean = false; // Fire button pressed since the last tick, so quick clicks aren't lost
+    private prediction!: ClientPrediction; // Applies our input right away and reconciles it with the authority
     private fuelBar!: GUI.Rectangle; // Fuel bar background
     private fuelBarFill!: GUI.Rectangle; // Fuel bar fill
     private fuelText!: GUI.TextBlock; // Fuel percentage text
+    private healthBar!: GUI.Rectangle; // Health bar background, left of the fuel bar
+    private healthBarFill!: GUI.Rectangle; // Health bar fill
+    private armorBarFill!: GUI.Rectangle; // Armor strip along the bottom of the health bar
+    private healthText!: GUI.TextBlock; // Health and armor text
+    private ammoBar!: GUI.Rectangle; // Ammo or heat bar background, right of the fuel bar
+    private ammoBarFill!: GUI.Rectangle; // Ammo or heat bar fill
+    private ammoText!: GUI.TextBlock; // Ammo, reload or heat text
+    private roomText!: GUI.TextBlock; // Room join code
+    private matchText!: GUI.TextBlock; // Mode, phase, time left and leading score
+    private resultsText!: GUI.TextBlock; // Match winner, shown between matches
+    private pickupText!: GUI.TextBlock; // Name of the item just picked up
+    private scoreboardPanel!: GUI.Rectangle; // Match scoreboard, shown while Tab is held
+    private scoreboardText!: GUI.TextBlock; // Scoreboard rows
+    private reconnectOverlay!: GUI.Rectangle; // Shown while the connection is down
     private lastMouseX: number | null = null; 
     private mouseSensitivity: number = 0.005;
     private _mouseMovement: number = 0; // Store mouse movement for processing
@@ -36,6 +67,10 @@ class Game {
     
     // Multiplayer manager reference
     private multiplayerManager: MultiplayerManager | null = null;
+    private transport: NetworkTransport | null = null; // Network backend used by the multiplayer manager
+    private roomManager: RoomManager | null = null;
+    private authService: AuthService | null = null; // Only used with the Firebase transport
+    private roomCode: string | null = null; // Join code of the room we are playing in
 
     constructor() {
         // Create the canvas and engine
@@ -74,27 +109,20 @@ class Game {
         // Create GUI
         this.setupGUI();
 
-        // Create the planet 
-        this.planet = new Planet(this.scene);
-        this.planet.create();
-
-        // Create the local player relative to planet
-        this.player = new Player(this.scene, this.planet);
-        
-        // Set initial debug cube visibility to false
-        this.player.setDebugCubeVisibility(false);
-
-        // Setup camera
-        this.setupCamera();
+        // Join a room, then build the shared world and the local player
+        this.initialize().catch(error => {
+            console.error("Failed to initialize game:", error);
+        });
         
         // Setup debug visuals if needed
         this.setupDebugMode();
         
-        // Initialize multiplayer after player is created
-        this.setupMultiplayer();
+        // Room create/join keys
+        this.setupRoomControls();
 
         // Add debug cube toggle handler (P key)
         window.addEventListener('keydown', (ev) => {
+            if (!this.isReady) return;
             if (ev.key === 'p' || ev.key === 'P') {
                 this.player.toggleDebugCube();
             }
@@ -123,14 +151,17 @@ class Game {
         this.canvas.addEventListener('mousedown', (event) => {
             event.preventDefault(); // Prevent default browser behavior
             console.log("Mouse down event triggered"); 
+            if (!this.isReady || this.isPaused()) return;
             if (event.button === 0) { // Left mouse button
-                this.player.shoot();
+                this.triggerHeld = true;
+                this.triggerPressed = true; // Fired with the next tick's input
             }
         });
 
-        // Set up frag callback
-        this.player.setOnFragCallback(() => {
-            this.frags++;
+        // Releasing the button fires charged weapons, with the next tick's input
+        window.addEventListener('mouseup', (event) => {
+            if (event.button !== 0) return;
+            this.triggerHeld = false;
         });
 
         // Add keyboard event listeners if not already added
@@ -140,6 +171,23 @@ class Game {
                 const key = event.key.toLowerCase();
                 this._keysPressed.add(key);
                 
+                // Tab shows the scoreboard, don't let it move the focus
+                if (key === 'tab') {
+                    event.preventDefault();
+                }
+                
+                // R reloads the current weapon
+                if (key === 'r' && this.isReady && !this.isPaused()) {
+                    this.player.reload();
+                }
+                
+                // Number keys select weapons in registry order
+                const weaponIndex = parseInt(key, 10) - 1;
+                const weapons = WeaponRegistry.getAll();
+                if (this.isReady && weaponIndex >= 0 && weaponIndex < weapons.length) {
+                    this.player.setWeapon(weapons[weaponIndex].id);
+                }
+                
                 // Handle L key shooting with "tap to shoot" behavior
                 // if (key === '0' && !this._lKeyWasPressed) {
                 //     this._0KeyWasPressed = true; // Mark as pressed so it won't shoot again until released
@@ -166,22 +214,53 @@ class Game {
             const deltaTime = (currentTime - this.lastFrameTime) / 1000; // Convert to seconds
             this.lastFrameTime = currentTime;
 
+            // Nothing to simulate or render until the world is built
+            if (!this.isReady) return;
+
             // Update FPS counter
             this.fpsText.text = `FPS: ${Math.round(this.engine.getFps())}`;
-            this.fragsText.text = `Frags: ${this.frags}`;
+            this.updateScoreDisplay();
+            this.updateMatchDisplay();
+            this.updateHealthBar();
+            this.updateWeaponDisplay();
+            this.updatePickupDisplay();
 
-            this.handlePlayerMovement(deltaTime);
-            
-            // Update local player
-            this.player.update(deltaTime);
+            // Hold the simulation while the connection is down, the world resumes where it was
+            const paused = this.isPaused();
+            this.reconnectOverlay.isVisible = paused;
             
-            // Update all remote players if multiplayer is active
-            if (this.multiplayerManager) {
-                // Update player data in Firebase
-                this.multiplayerManager.updatePlayerData();
+            if (!paused) {
+                // Continue the simulation from the last tick, not from the interpolated meshes
+                this.player.restoreSimulatedTransform();
+                if (this.multiplayerManager) {
+                    this.multiplayerManager.restoreSimulatedTransforms();
+                }
+                
+                // Take over the authority's latest state and replay the inputs it hasn't seen
+                this.prediction.reconcile(FixedTimestep.TICK_DURATION);
+                
+                // Run the ticks this frame covers, at any frame rate the game plays the same
+                this.timestep.advance(deltaTime);
+                this.updateFuelBar();
+                
+                // Update all remote players if multiplayer is active
+                if (this.multiplayerManager) {
+                    // Update player data in Firebase, from the simulated state
+                    this.multiplayerManager.updatePlayerData();
+                    
+                    // Update/Display all remote players
+                    this.multiplayerManager.updateRemotePlayers(deltaTime);
+                }
                 
-                // Update/Display all remote players
-                this.multiplayerManager.updateRemotePlayers(deltaTime);
+                // Draw our player, bots and projectiles between the last two ticks
+                const alpha = this.timestep.getAlpha();
+                this.player.interpolateTransform(alpha);
+                if (this.multiplayerManager) {
+                    this.multiplayerManager.interpolateTransforms(alpha);
+                }
+            } else {
+                this._mouseMovement = 0; // Drop mouse movement made while paused
+                this.timestep.reset();
             }
             
             this.updateCamera();
@@ -204,27 +283,200 @@ class Game {
             if (this.multiplayerManager) {
                 this.multiplayerManager.dispose();
             }
+            if (this.roomManager && this.roomCode) {
+                this.roomManager.leaveRoom(this.roomCode, this.playerUUID);
+            }
+            if (this.transport) {
+                this.transport.dispose();
+            }
         });
     }
     
+    /**
+     * Joins a room and builds the star system it defines, then creates the local player,
+     * camera and multiplayer manager
+     */
+    private async initialize(): Promise<void> {
+        // Pick the network backend
+        this.transport = this.createTransport();
+        this.roomManager = new RoomManager(this.transport);
+
+        // With Firebase our player ID is the auth uid, which the database rules check
+        if (this.transport instanceof FirebaseTransport) {
+            this.authService = new AuthService();
+            this.playerUUID = await this.authService.signIn();
+        }
+
+        // Join the room from the URL or create a new one
+        const room = await this.joinOrCreateRoom();
+        this.roomCode = room.code;
+        this.roomText.text = `Room: ${room.code} (N: new, J: join, B: add bot)`;
+
+        // Create the planets and moons shared by everyone in the room
+        this.system = new StarSystem(this.scene, room.system || StarSystem.fromPlanet(room.planet));
+        this.system.create();
+
+        // Create the local player on one of the bodies
+        this.player = new Player(this.scene, this.system, this.playerUUID);
+        
+        // Set initial debug cube visibility to false
+        this.player.setDebugCubeVisibility(false);
+        this.prediction = new ClientPrediction(this.player);
+
+        // Setup camera
+        this.setupCamera();
+        
+        // Initialize multiplayer after player is created
+        this.setupMultiplayer(room);
+        this.requestBots();
+
+        this.isReady = true;
+    }
+    
     /**
      * Initializes the multiplayer functionality
+     * @param room The room to play in
      */
-    private setupMultiplayer(): void {
+    private setupMultiplayer(room: RoomMeta): void {
         // Create the multiplayer manager
         this.multiplayerManager = new MultiplayerManager(
             this.scene,
+            this.transport!,
+            room.code,
             this.player,
-            this.planet,
-            (playerUUID: string) => {
-                // Callback when local player is hit by another player's projectile
-                this.frags++; // Increment the frag counter for the other player
-                console.log("We were hit by player:", playerUUID);
+            this.system,
+            room.settings || MatchManager.getDefaultSettings('ffa'),
+            (kill: KillEventData) => {
+                // Callback when the host confirms a kill, scores come from the scoreboard
+                if (kill.killerUUID === this.player.getUUID()) {
+                    console.log(`We fragged ${kill.victimUUID} with the ${kill.weapon}`);
+                } else if (kill.victimUUID === this.player.getUUID()) {
+                    console.log("We were hit by player:", kill.killerUUID);
+                }
             }
         );
         
         // Set multiplayer manager reference in player for projectile syncing
         this.player.setMultiplayerManager(this.multiplayerManager);
+        
+        // Our inputs go to the authority, its corrections come back to the prediction
+        this.multiplayerManager.setPrediction(this.prediction);
+    }
+    
+    /**
+     * Asks for the bots given by the `bots` URL parameter, with the difficulty from
+     * `botDifficulty` (easy, normal or hard). They join once we are the room's host,
+     * so `?transport=local&bots=3` gives an offline practice match.
+     */
+    private requestBots(): void {
+        const params = new URLSearchParams(window.location.search);
+        const count = parseInt(params.get('bots') || '', 10);
+        if (!(count > 0) || !this.multiplayerManager) return;
+
+        const difficulty = params.get('botDifficulty');
+        this.multiplayerManager.getBotManager().request(
+            count,
+            difficulty === 'easy' || difficulty === 'hard' ? difficulty : 'normal'
+        );
+    }
+
+    /**
+     * Joins the room given by the `room` URL parameter, or creates a new room when
+     * there is none or it cannot be joined. The URL is updated so it can be shared.
+     */
+    private async joinOrCreateRoom(): Promise<RoomMeta> {
+        const params = new URLSearchParams(window.location.search);
+        const requestedCode = params.get('room');
+        let room: RoomMeta | null = null;
+
+        if (requestedCode) {
+            try {
+                room = await this.roomManager!.joinRoom(requestedCode, this.playerUUID);
+            } catch (error) {
+                console.warn('Failed to join room, creating a new one:', error);
+            }
+        }
+
+        if (!room) {
+            room = await this.roomManager!.createRoom(StarSystem.createRandomDefinition(), this.getRequestedMatchSettings(params));
+        }
+
+        // Put the join code in the URL so the page can be shared or reloaded
+        params.set('room', room.code);
+        window.history.replaceState(null, '', `${window.location.pathname}?${params.toString()}`);
+
+        return room;
+    }
+
+    /**
+     * Reads the match settings for a new room from the URL: `mode` (ffa, tdm or koth),
+     * optionally `scoreLimit` and `timeLimit` in minutes. Missing values use the mode's defaults.
+     * @param params The page's URL parameters
+     */
+    private getRequestedMatchSettings(params: URLSearchParams): MatchSettings {
+        const mode = params.get('mode');
+        const settings = MatchManager.getDefaultSettings(mode === 'tdm' || mode === 'koth' ? mode : 'ffa');
+
+        const scoreLimit = parseInt(params.get('scoreLimit') || '', 10);
+        if (scoreLimit > 0) {
+            settings.scoreLimit = scoreLimit;
+        }
+        const timeLimit = parseFloat(params.get('timeLimit') || '');
+        if (timeLimit > 0) {
+            settings.timeLimit = Math.round(timeLimit * 60000);
+        }
+
+        return settings;
+    }
+
+    /**
+     * Sets up the keys used to create (N) and join (J) rooms, to upgrade an anonymous
+     * account (U) and for the host to add (B) or remove (Shift+B) bots. Switching rooms
+     * reloads the page, which leaves the current room through the beforeunload handler.
+     */
+    private setupRoomControls(): void {
+        window.addEventListener('keydown', (ev) => {
+            if (ev.key === 'n' || ev.key === 'N') {
+                // Drop the room parameter so a new room is created
+                const params = new URLSearchParams(window.location.search);
+                params.delete('room');
+                window.location.search = params.toString();
+            } else if ((ev.key === 'u' || ev.key === 'U') && this.authService) {
+                // Keep the same identity across devices by linking a Google account
+                this.authService.upgradeWithGoogle().catch(error => {
+                    console.warn('Failed to upgrade account:', error);
+                });
+            } else if (ev.key === 'j' || ev.key === 'J') {
+                const code = window.prompt('Enter room code');
+                if (code) {
+                    const params = new URLSearchParams(window.location.search);
+                    params.set('room', RoomManager.normalizeCode(code));
+                    window.location.search = params.toString();
+                }
+            } else if ((ev.key === 'b' || ev.key === 'B') && this.multiplayerManager) {
+                const botManager = this.multiplayerManager.getBotManager();
+                if (ev.shiftKey) {
+                    if (!botManager.removeBot()) {
+                        console.warn('Only the host can remove bots, and there are none to remove');
+                    }
+                } else if (!botManager.addBot()) {
+                    console.warn('Only the host can add bots, and only while the room has free slots');
+                }
+            }
+        });
+    }
+
+    /**
+     * Creates the network transport selected by the `transport` URL parameter.
+     * `?transport=local` syncs browser tabs through a BroadcastChannel, otherwise Firebase is used.
+     */
+    private createTransport(): NetworkTransport {
+        const params = new URLSearchParams(window.location.search);
+        if (params.get('transport') === 'local') {
+            console.log("Using local BroadcastChannel transport");
+            return new LocalTransport();
+        }
+        return new FirebaseTransport();
     }
     
     /**
@@ -288,13 +540,15 @@ class Game {
                 this.axesViewer = new AxesViewer(this.scene, 1); // Size 2
             }
             
-            // Create a visible sphere at planet center for reference
-            const centerSphere = MeshBuilder.CreateSphere("planetCenter", { diameter: 0.5 }, this.scene);
-            centerSphere.position = Vector3.Zero();
+            // Create a visible sphere at the center of every body for reference
             const centerMaterial = new StandardMaterial("centerMaterial", this.scene);
             centerMaterial.diffuseColor = new Color3(1, 1, 0); // Yellow
             centerMaterial.emissiveColor = new Color3(1, 1, 0); // Make it glow
-            centerSphere.material = centerMaterial;
+            this.system.getBodies().forEach(body => {
+                const centerSphere = MeshBuilder.CreateSphere("planetCenter", { diameter: 0.5 }, this.scene);
+                centerSphere.position = body.getCenter();
+                centerSphere.material = centerMaterial;
+            });
         } else {
             // Remove debug visuals
             if (this.axesViewer) {
@@ -302,10 +556,9 @@ class Game {
                 this.axesViewer = null;
             }
             
-            const centerSphere = this.scene.getMeshByName("planetCenter");
-            if (centerSphere) {
-                centerSphere.dispose();
-            }
+            this.scene.meshes
+                .filter(mesh => mesh.name === "planetCenter")
+                .forEach(mesh => mesh.dispose(false, true));
         }
     }
 
@@ -340,8 +593,8 @@ class Game {
         const playerMesh = this.player.getMesh();
         const playerPos = playerMesh.position.clone();
         
-        // Calculate up vector (from planet center to player)
-        const upVector = playerPos.clone().normalize();
+        // Calculate up vector (from the center of the player's body to player)
+        const upVector = this.player.getUpVector();
         
         // Get the player's forward direction (positive Z in local space)
         // The front face (blue) is on the positive Z-axis according to standard conventions
@@ -390,18 +643,19 @@ class Game {
      * Updates camera for orbit mode (planet view)
      */
     private updateOrbitCamera(): void {
-        // In orbit mode, keep camera at constant height from planet surface
-        const planetRadius = this.planet.getBaseRadius();
+        // In orbit mode, keep camera at constant height from the surface of the player's body
+        const body = this.player.getPlanet();
+        const planetRadius = body.getBaseRadius();
         const desiredRadius = planetRadius + this.planetOrbitHeight;
         
         // Smoothly transition radius
         this.camera.radius = this.camera.radius + 
             (desiredRadius - this.camera.radius) * this.cameraTransitionSpeed;
         
-        // Smoothly transition target back to planet center
+        // Smoothly transition target back to the body's center
         this.camera.target = Vector3.Lerp(
             this.camera.target,
-            Vector3.Zero(),
+            body.getCenter(),
             this.cameraTransitionSpeed
         );
     }
@@ -411,7 +665,7 @@ class Game {
      */
     private setupCamera(): void {
         // Initialize camera at orbit position
-        const planetRadius = this.planet.getBaseRadius();
+        const planetRadius = this.system.getMainBody().getBaseRadius();
         this.camera = new ArcRotateCamera(
             "camera",
             0,                  // alpha
@@ -452,24 +706,27 @@ class Game {
     }
 
     /**
-     * Handles player input including both WASD movement, mouse rotation, and spacebar for jetpack
-     * @param deltaTime Time elapsed since last frame in seconds
+     * Advances the game by one simulation tick: applies the held input, then moves the
+     * local player, the bots and every projectile
+     * @param deltaTime Tick duration in seconds
      */
-    private handlePlayerMovement(deltaTime: number): void {
-        // Process physics regardless of camera mode
-        if (this._keysPressed.has(' ')) {
-            this.player.activateJetpack();
-        } else {
-            this.player.deactivateJetpack();
+    private tick(deltaTime: number): void {
+        // Predict our player right away, the input is sent to the authority with the next update
+        this.prediction.predict(this.captureInput(), deltaTime);
+        
+        // Move the bots and remote projectiles
+        if (this.multiplayerManager) {
+            this.multiplayerManager.tick(deltaTime);
         }
+    }
 
+    /**
+     * Captures the input held during a tick: WASD movement, mouse rotation, spacebar for
+     * jetpack and the fire button
+     */
+    private captureInput(): { forward: number, strafe: number, turn: number, jetpack: boolean, trigger: boolean } {
         // Note: L key shooting is now handled in the keydown event listener
         // to ensure each key press fires exactly once
-        
-        this.player.updatePhysics(deltaTime);
-        
-        // Update fuel bar
-        this.updateFuelBar();
 
         // Only handle movement in third person mode
         // if (!this.isThirdPersonMode) {
@@ -490,17 +747,19 @@ class Game {
             this._keyboardInitialized = true;
         }
 
-        // Process keyboard movement
-        if (this._keysPressed.has('a')) this.player.strafeLeft(deltaTime);
-        if (this._keysPressed.has('d')) this.player.strafeRight(deltaTime);
-        if (this._keysPressed.has('w')) this.player.moveForward(deltaTime);
-        if (this._keysPressed.has('s')) this.player.moveBackward(deltaTime);
+        // Opposite keys cancel out
+        const forward = (this._keysPressed.has('w') ? 1 : 0) - (this._keysPressed.has('s') ? 1 : 0);
+        const strafe = (this._keysPressed.has('d') ? 1 : 0) - (this._keysPressed.has('a') ? 1 : 0);
 
-        // Process mouse rotation if we have movement
-        if (this._mouseMovement !== 0) {
-            this.player.rotate(this._mouseMovement * this.mouseSensitivity);
-            this._mouseMovement = 0; // Reset after processing
-        }
+        // Mouse movement since the last tick
+        const turn = this._mouseMovement * this.mouseSensitivity;
+        this._mouseMovement = 0; // Reset after processing
+
+        // A click between two ticks still counts as one tick of holding the button
+        const trigger = this.triggerHeld || this.triggerPressed;
+        this.triggerPressed = false;
+
+        return { forward, strafe, turn, jetpack: this._keysPressed.has(' '), trigger };
     }
     
     /**
@@ -527,7 +786,88 @@ class Game {
     }
 
     /**
-     * Sets up GUI elements for FPS, frags counters, and fuel bar
+     * Shows the name of the last item the player picked up for a moment
+     */
+    private updatePickupDisplay(): void {
+        if (!this.multiplayerManager) return;
+        
+        const pickup = this.multiplayerManager.getPickupManager().getLastPickup();
+        const visible = pickup !== null && Date.now() - pickup.time < 2000;
+        this.pickupText.text = visible ? `+ ${pickup!.name}` : '';
+    }
+
+    /**
+     * Updates the selected weapon display, including the charge of charged weapons,
+     * and the ammo or heat bar
+     */
+    private updateWeaponDisplay(): void {
+        const weapon = this.player.getWeapon();
+        const charge = this.player.getChargeProgress();
+        this.weaponText.text = charge > 0 ? `${weapon.name} ${Math.round(charge * 100)}%` : weapon.name;
+        
+        const state = this.player.getWeaponState();
+        const currentTime = Date.now();
+        let fill: number;
+        
+        if (weapon.magazineSize > 0) {
+            // Magazine weapons show the shots left, or the reload progress
+            if (state.isReloading(currentTime)) {
+                fill = state.getReloadProgress(currentTime);
+                this.ammoText.text = "Reloading...";
+                this.ammoBarFill.background = "#888888"; // Grey while reloading
+            } else {
+                const ammo = state.getAmmo(currentTime);
+                fill = ammo / weapon.magazineSize;
+                this.ammoText.text = `Ammo: ${ammo}/${weapon.magazineSize}`;
+                this.ammoBarFill.background = "#FFDD00"; // Yellow for ammo
+            }
+        } else {
+            // Heat weapons show how close they are to overheating
+            const heat = state.getHeat(currentTime);
+            fill = Math.min(1, heat / WeaponState.MAX_HEAT);
+            if (state.isOverheated(currentTime)) {
+                this.ammoText.text = "OVERHEATED";
+                this.ammoBarFill.background = "#FF3300"; // Red while locked up
+            } else {
+                this.ammoText.text = `Heat: ${Math.round(fill * 100)}%`;
+                this.ammoBarFill.background = fill > 0.66 ? "#FF8800" : "#FFDD00"; // Orange when close to overheating
+            }
+        }
+        
+        // Update the fill width, 196px is the max width
+        this.ammoBarFill.width = `${fill * 196}px`;
+    }
+    
+    /**
+     * Updates the health bar UI from the local player's health and armor
+     */
+    private updateHealthBar(): void {
+        if (!this.multiplayerManager) return;
+        
+        // Health regenerates over server time, like on every other client
+        const healthModel = this.player.getHealthModel();
+        const health = healthModel.getHealth(this.multiplayerManager.getServerTime());
+        const armor = healthModel.getArmor();
+        
+        // Update the fill widths, 196px is the max width
+        this.healthBarFill.width = `${(health / HealthModel.MAX_HEALTH) * 196}px`;
+        this.armorBarFill.width = `${(armor / HealthModel.MAX_ARMOR) * 196}px`;
+        
+        // Update text
+        this.healthText.text = `Health: ${Math.round(health)}  Armor: ${Math.round(armor)}`;
+        
+        // Change color based on health
+        if (health > 50) {
+            this.healthBarFill.background = "#33CC33"; // Green for high health
+        } else if (health > 25) {
+            this.healthBarFill.background = "#FFAA00"; // Orange for medium health
+        } else {
+            this.healthBarFill.background = "#FF3300"; // Red for low health
+        }
+    }
+
+    /**
+     * Sets up GUI elements for FPS, frags counters, health and fuel bars
      */
     private setupGUI(): void {
         const advancedTexture = GUI.AdvancedDynamicTexture.CreateFullscreenUI("UI");
@@ -550,6 +890,52 @@ class Game {
         this.fragsText.left = "-10px"; // Added some padding from the right edge
         advancedTexture.addControl(this.fragsText);
         
+        // Create weapon display below the frags counter
+        this.weaponText = new GUI.TextBlock("weaponText", "Blaster");
+        this.weaponText.color = "white";
+        this.weaponText.fontSize = "18px";
+        this.weaponText.textHorizontalAlignment = GUI.Control.HORIZONTAL_ALIGNMENT_RIGHT;
+        this.weaponText.textVerticalAlignment = GUI.Control.VERTICAL_ALIGNMENT_TOP;
+        this.weaponText.top = "40px";
+        this.weaponText.left = "-10px";
+        advancedTexture.addControl(this.weaponText);
+        
+        // Create room code display below the FPS counter
+        this.roomText = new GUI.TextBlock("roomText", "Room: ...");
+        this.roomText.color = "white";
+        this.roomText.fontSize = "18px";
+        this.roomText.textHorizontalAlignment = GUI.Control.HORIZONTAL_ALIGNMENT_LEFT;
+        this.roomText.textVerticalAlignment = GUI.Control.VERTICAL_ALIGNMENT_TOP;
+        this.roomText.top = "30px";
+        advancedTexture.addControl(this.roomText);
+        
+        // Create the match status below the bars
+        this.matchText = new GUI.TextBlock("matchText", "");
+        this.matchText.color = "white";
+        this.matchText.fontSize = "18px";
+        this.matchText.textHorizontalAlignment = GUI.Control.HORIZONTAL_ALIGNMENT_CENTER;
+        this.matchText.textVerticalAlignment = GUI.Control.VERTICAL_ALIGNMENT_TOP;
+        this.matchText.top = "40px";
+        advancedTexture.addControl(this.matchText);
+        
+        // Create the pickup message below the match status
+        this.pickupText = new GUI.TextBlock("pickupText", "");
+        this.pickupText.color = "lime";
+        this.pickupText.fontSize = "20px";
+        this.pickupText.fontWeight = "bold";
+        this.pickupText.textVerticalAlignment = GUI.Control.VERTICAL_ALIGNMENT_TOP;
+        this.pickupText.top = "70px";
+        advancedTexture.addControl(this.pickupText);
+        
+        // Create the match results, hidden until a match ends
+        this.resultsText = new GUI.TextBlock("resultsText", "");
+        this.resultsText.color = "gold";
+        this.resultsText.fontSize = "36px";
+        this.resultsText.fontWeight = "bold";
+        this.resultsText.top = "-120px";
+        this.resultsText.isVisible = false;
+        advancedTexture.addControl(this.resultsText);
+        
         // Create fuel bar background
         this.fuelBar = new GUI.Rectangle("fuelBar");
         this.fuelBar.width = "200px";
@@ -582,6 +968,215 @@ class Game {
         this.fuelText.textHorizontalAlignment = GUI.Control.HORIZONTAL_ALIGNMENT_CENTER;
         this.fuelText.textVerticalAlignment = GUI.Control.VERTICAL_ALIGNMENT_CENTER;
         this.fuelBar.addControl(this.fuelText);
+        
+        // Create health bar background, left of the fuel bar
+        this.healthBar = new GUI.Rectangle("healthBar");
+        this.healthBar.width = "200px";
+        this.healthBar.height = "20px";
+        this.healthBar.cornerRadius = 5;
+        this.healthBar.color = "white";
+        this.healthBar.thickness = 2;
+        this.healthBar.background = "black";
+        this.healthBar.horizontalAlignment = GUI.Control.HORIZONTAL_ALIGNMENT_CENTER;
+        this.healthBar.verticalAlignment = GUI.Control.VERTICAL_ALIGNMENT_TOP;
+        this.healthBar.top = "10px";
+        this.healthBar.left = "-210px"; // Fuel bar width plus a gap
+        advancedTexture.addControl(this.healthBar);
+        
+        // Create health bar fill
+        this.healthBarFill = new GUI.Rectangle("healthBarFill");
+        this.healthBarFill.width = "196px";
+        this.healthBarFill.height = "16px";
+        this.healthBarFill.cornerRadius = 4;
+        this.healthBarFill.color = "transparent";
+        this.healthBarFill.background = "#33CC33"; // Green color for health
+        this.healthBarFill.horizontalAlignment = GUI.Control.HORIZONTAL_ALIGNMENT_LEFT;
+        this.healthBarFill.left = "2px";
+        this.healthBar.addControl(this.healthBarFill);
+        
+        // Create armor strip at the bottom of the health bar
+        this.armorBarFill = new GUI.Rectangle("armorBarFill");
+        this.armorBarFill.width = "0px";
+        this.armorBarFill.height = "4px";
+        this.armorBarFill.color = "transparent";
+        this.armorBarFill.background = "#CCCCFF"; // Pale blue for armor
+        this.armorBarFill.horizontalAlignment = GUI.Control.HORIZONTAL_ALIGNMENT_LEFT;
+        this.armorBarFill.verticalAlignment = GUI.Control.VERTICAL_ALIGNMENT_BOTTOM;
+        this.armorBarFill.left = "2px";
+        this.armorBarFill.top = "-2px";
+        this.healthBar.addControl(this.armorBarFill);
+        
+        // Create health text
+        this.healthText = new GUI.TextBlock("healthText", "Health: 100  Armor: 0");
+        this.healthText.color = "white";
+        this.healthText.fontSize = "14px";
+        this.healthText.fontWeight = "bold";
+        this.healthText.textHorizontalAlignment = GUI.Control.HORIZONTAL_ALIGNMENT_CENTER;
+        this.healthText.textVerticalAlignment = GUI.Control.VERTICAL_ALIGNMENT_CENTER;
+        this.healthBar.addControl(this.healthText);
+        
+        // Create ammo/heat bar background, right of the fuel bar
+        this.ammoBar = new GUI.Rectangle("ammoBar");
+        this.ammoBar.width = "200px";
+        this.ammoBar.height = "20px";
+        this.ammoBar.cornerRadius = 5;
+        this.ammoBar.color = "white";
+        this.ammoBar.thickness = 2;
+        this.ammoBar.background = "black";
+        this.ammoBar.horizontalAlignment = GUI.Control.HORIZONTAL_ALIGNMENT_CENTER;
+        this.ammoBar.verticalAlignment = GUI.Control.VERTICAL_ALIGNMENT_TOP;
+        this.ammoBar.top = "10px";
+        this.ammoBar.left = "210px"; // Fuel bar width plus a gap
+        advancedTexture.addControl(this.ammoBar);
+        
+        // Create ammo/heat bar fill
+        this.ammoBarFill = new GUI.Rectangle("ammoBarFill");
+        this.ammoBarFill.width = "196px";
+        this.ammoBarFill.height = "16px";
+        this.ammoBarFill.cornerRadius = 4;
+        this.ammoBarFill.color = "transparent";
+        this.ammoBarFill.background = "#FFDD00"; // Yellow for ammo
+        this.ammoBarFill.horizontalAlignment = GUI.Control.HORIZONTAL_ALIGNMENT_LEFT;
+        this.ammoBarFill.left = "2px";
+        this.ammoBar.addControl(this.ammoBarFill);
+        
+        // Create ammo/heat text
+        this.ammoText = new GUI.TextBlock("ammoText", "Ammo");
+        this.ammoText.color = "white";
+        this.ammoText.fontSize = "14px";
+        this.ammoText.fontWeight = "bold";
+        this.ammoText.textHorizontalAlignment = GUI.Control.HORIZONTAL_ALIGNMENT_CENTER;
+        this.ammoText.textVerticalAlignment = GUI.Control.VERTICAL_ALIGNMENT_CENTER;
+        this.ammoBar.addControl(this.ammoText);
+        
+        // Create the scoreboard, hidden until Tab is held
+        this.scoreboardPanel = new GUI.Rectangle("scoreboardPanel");
+        this.scoreboardPanel.width = "420px";
+        this.scoreboardPanel.adaptHeightToChildren = true;
+        this.scoreboardPanel.cornerRadius = 5;
+        this.scoreboardPanel.color = "white";
+        this.scoreboardPanel.thickness = 2;
+        this.scoreboardPanel.background = "rgba(0, 0, 0, 0.7)";
+        this.scoreboardPanel.isVisible = false;
+        advancedTexture.addControl(this.scoreboardPanel);
+        
+        this.scoreboardText = new GUI.TextBlock("scoreboardText", "");
+        this.scoreboardText.color = "white";
+        this.scoreboardText.fontSize = "18px";
+        this.scoreboardText.fontFamily = "monospace"; // Keep the columns aligned
+        this.scoreboardText.resizeToFit = true;
+        this.scoreboardText.paddingTop = "10px";
+        this.scoreboardText.paddingBottom = "10px";
+        this.scoreboardText.textHorizontalAlignment = GUI.Control.HORIZONTAL_ALIGNMENT_LEFT;
+        this.scoreboardPanel.addControl(this.scoreboardText);
+        
+        // Create the reconnecting overlay, dimming the whole screen
+        this.reconnectOverlay = new GUI.Rectangle("reconnectOverlay");
+        this.reconnectOverlay.width = "100%";
+        this.reconnectOverlay.height = "100%";
+        this.reconnectOverlay.thickness = 0;
+        this.reconnectOverlay.background = "rgba(0, 0, 0, 0.6)";
+        this.reconnectOverlay.isVisible = false;
+        advancedTexture.addControl(this.reconnectOverlay);
+        
+        const reconnectText = new GUI.TextBlock("reconnectText", "Connection lost, reconnecting...");
+        reconnectText.color = "white";
+        reconnectText.fontSize = "32px";
+        reconnectText.fontWeight = "bold";
+        this.reconnectOverlay.addControl(reconnectText);
+    }
+    
+    /**
+     * Returns whether the game is paused because the connection to the match was lost
+     */
+    private isPaused(): boolean {
+        return this.multiplayerManager !== null && !this.multiplayerManager.isConnected();
+    }
+    
+    /**
+     * Updates the frags counter and, while Tab is held, the scoreboard. Both read the
+     * scoreboard derived from the room's kill events.
+     */
+    private updateScoreDisplay(): void {
+        if (!this.multiplayerManager) return;
+        
+        const scoreboard = this.multiplayerManager.getScoreboard();
+        const ownScore = scoreboard.getScore(this.playerUUID);
+        this.fragsText.text = `Frags: ${ownScore.kills}  Deaths: ${ownScore.deaths}`;
+        
+        this.scoreboardPanel.isVisible = this._keysPressed.has('tab');
+        if (!this.scoreboardPanel.isVisible) return;
+        
+        const matchManager = this.multiplayerManager.getMatchManager();
+        const rows = scoreboard.getRanking(this.multiplayerManager.getPlayerUUIDs()).map((score, index) => {
+            // Player IDs are long, a prefix is enough to tell players apart
+            const team = matchManager.getTeam(score.uuid);
+            const name = (score.uuid === this.playerUUID ? 'You' : score.uuid.substring(0, 8)).padEnd(10);
+            const row = `${index + 1}. ${name} ${String(score.kills).padStart(5)} ${String(score.deaths).padStart(6)} ${String(score.streak).padStart(6)}`;
+            return team ? `${row}  ${team}` : row;
+        });
+        this.scoreboardText.text = [`   ${'Player'.padEnd(10)} ${'Frags'.padStart(5)} ${'Deaths'.padStart(6)} ${'Streak'.padStart(6)}`, ...rows].join('\n');
+    }
+    
+    /**
+     * Updates the match status line and the results shown between matches
+     */
+    private updateMatchDisplay(): void {
+        if (!this.multiplayerManager) return;
+        
+        const matchManager = this.multiplayerManager.getMatchManager();
+        const settings = matchManager.getSettings();
+        const state = matchManager.getState();
+        const modeName = MatchManager.getModeName(settings.mode);
+        
+        if (!state) {
+            this.matchText.text = modeName;
+            this.resultsText.isVisible = false;
+            return;
+        }
+        
+        // Time left as m:ss
+        const seconds = Math.ceil(matchManager.getTimeRemaining() / 1000);
+        const time = `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+        
+        const parts = [modeName];
+        const team = matchManager.getTeam(this.playerUUID);
+        if (team) {
+            parts.push(`Team ${team}`);
+        }
+        
+        switch (state.phase) {
+            case 'warmup':
+                parts.push(`Warmup ${time}`);
+                break;
+            case 'live':
+            case 'overtime': {
+                parts.push(state.phase === 'live' ? time : `Overtime ${time}`);
+                const leader = matchManager.getStandings()[0];
+                if (leader) {
+                    parts.push(`Lead: ${this.getStandingName(leader.id)} ${Math.floor(leader.score)}/${settings.scoreLimit}`);
+                }
+                break;
+            }
+            case 'results':
+                parts.push(`Next match ${time}`);
+                break;
+        }
+        this.matchText.text = parts.join('  |  ');
+        
+        this.resultsText.isVisible = state.phase === 'results';
+        if (this.resultsText.isVisible) {
+            this.resultsText.text = state.winner ? `${this.getStandingName(state.winner)} won the match!` : 'The match is a draw';
+        }
+    }
+    
+    /**
+     * Returns a display name for a player or team in the standings
+     * @param id Player UUID or team
+     */
+    private getStandingName(id: string): string {
+        if (id === 'red' || id === 'blue') return `Team ${id}`;
+        return id === this.playerUUID ? 'You' : id.substring(0, 8);
     }
 }
 
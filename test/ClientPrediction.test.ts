@@ -0,0 +1,131 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { NullEngine, Scene, Vector3 } from '@babylonjs/core';
+import { ClientPrediction, MovementState } from '../src/ClientPrediction';
+import { Player } from '../src/Player';
+import { StarSystem } from '../src/StarSystem';
+import { PlanetDefinition } from '../src/Planet';
+
+const PLANET: PlanetDefinition = {
+    seed: 1234,
+    radius: 4,
+    craterDepth: 1.6,
+    craterFrequency: 2.0,
+    textureSize: 128,
+    textureRandomness: 0.5,
+    textureOffsetU: 0,
+    textureOffsetV: 0
+};
+const DELTA_TIME = 1 / 60;
+const IDLE = { forward: 0, strafe: 0, turn: 0, jetpack: false, trigger: false };
+const WALK = { forward: 1, strafe: 0, turn: 0.01, jetpack: false, trigger: false };
+
+describe('ClientPrediction', () => {
+    let engine: NullEngine;
+    let scene: Scene;
+    let system: StarSystem;
+    let player: Player;
+    let prediction: ClientPrediction;
+
+    beforeEach(() => {
+        // The same spawn point on every run
+        let seed = 42;
+        mock.method(Math, 'random', () => {
+            seed = seed * 16807 % 2147483647;
+            return seed / 2147483647;
+        });
+
+        engine = new NullEngine();
+        scene = new Scene(engine);
+        system = new StarSystem(scene, StarSystem.fromPlanet(PLANET));
+        player = new Player(scene, system, 'local', () => 0, true);
+        prediction = new ClientPrediction(player);
+
+        // Land on the surface before predicting anything that matters
+        for (let i = 0; i < 60; i++) {
+            player.update(DELTA_TIME);
+        }
+    });
+
+    afterEach(() => {
+        scene.dispose();
+        engine.dispose();
+        mock.restoreAll();
+    });
+
+    // Predicts walking ticks and returns the state after each one
+    const walk = (ticks: number): MovementState[] => {
+        const states: MovementState[] = [];
+        for (let i = 0; i < ticks; i++) {
+            prediction.predict(WALK, DELTA_TIME);
+            states.push(player.getMovementState());
+        }
+        return states;
+    };
+
+    const position = (state: MovementState) => new Vector3(state.position.x, state.position.y, state.position.z);
+
+    it('numbers inputs and keeps them until acknowledged', () => {
+        prediction.predict(IDLE, DELTA_TIME);
+        const states = walk(3);
+
+        assert.equal(prediction.getSequence(), 4);
+        assert.deepEqual(prediction.getUnacknowledged().map(command => command.sequence), [1, 2, 3, 4]);
+
+        prediction.receiveCorrection({ sequence: 2, state: states[0] });
+        prediction.reconcile(DELTA_TIME);
+
+        assert.deepEqual(prediction.getUnacknowledged().map(command => command.sequence), [3, 4]);
+    });
+
+    it('keeps the prediction when the authority agrees', () => {
+        const states = walk(5);
+        const predicted = player.getMovementState();
+
+        prediction.receiveCorrection({ sequence: 2, state: states[1] });
+        prediction.reconcile(DELTA_TIME);
+
+        assert.deepEqual(player.getMovementState(), predicted);
+    });
+
+    it('replays unacknowledged inputs on top of the authority\'s state', () => {
+        const states = walk(5);
+        const predicted = player.getMovementState();
+
+        // The authority put us somewhere else along the surface after the second input
+        const up = position(states[1]).subtract(system.getMainBody().getCenter()).normalize();
+        const moved = position(states[1]).add(Vector3.Cross(up, Math.abs(up.y) < 0.9 ? Vector3.Up() : Vector3.Right()).normalize().scale(0.2));
+        const corrected: MovementState = { ...states[1], position: { x: moved.x, y: moved.y, z: moved.z } };
+        prediction.receiveCorrection({ sequence: 2, state: corrected });
+        prediction.reconcile(DELTA_TIME);
+
+        // Same as starting from the corrected state and running the three inputs it hasn't seen
+        const reference = new Player(scene, system, 'reference', () => 0, true);
+        reference.setMovementState(corrected);
+        prediction.getUnacknowledged().forEach(command => reference.replayInput(command, DELTA_TIME));
+
+        assert.ok(Vector3.Distance(position(player.getMovementState()), position(predicted)) > 0.1);
+        assert.ok(Vector3.Distance(position(player.getMovementState()), position(reference.getMovementState())) < 1e-6);
+    });
+
+    it('ignores corrections older than the last one applied', () => {
+        const states = walk(5);
+        prediction.receiveCorrection({ sequence: 4, state: states[3] });
+        prediction.reconcile(DELTA_TIME);
+        const predicted = player.getMovementState();
+
+        const stale: MovementState = { ...states[1], position: { ...states[1].position, x: states[1].position.x + 1 } };
+        prediction.receiveCorrection({ sequence: 2, state: stale });
+        prediction.reconcile(DELTA_TIME);
+
+        assert.deepEqual(player.getMovementState(), predicted);
+    });
+
+    it('round-trips encoded commands', () => {
+        const command = { sequence: 42, forward: -1, strafe: 1, turn: -0.123, jetpack: true, trigger: false };
+
+        assert.deepEqual(ClientPrediction.decode(ClientPrediction.encode(command)), command);
+        assert.equal(ClientPrediction.decode('1,2'), null);
+        assert.equal(ClientPrediction.decode('1,x,3'), null);
+    });
+});
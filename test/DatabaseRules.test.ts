@@ -0,0 +1,160 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { initializeTestEnvironment, assertSucceeds, assertFails, RulesTestEnvironment } from '@firebase/rules-unit-testing';
+
+// The rules only run against the database emulator, see `npm run test:rules`
+const emulatorHost = process.env.FIREBASE_DATABASE_EMULATOR_HOST;
+const ROOM = 'rooms/ABCD';
+
+describe('database rules', { skip: !emulatorHost && 'database emulator not running' }, () => {
+    let testEnv: RulesTestEnvironment;
+
+    before(async () => {
+        testEnv = await initializeTestEnvironment({
+            projectId: 'demo-fragnauts',
+            database: { rules: readFileSync(resolve(__dirname, '../public/database.rules.json'), 'utf8') }
+        });
+    });
+
+    beforeEach(async () => {
+        await testEnv.clearDatabase();
+    });
+
+    after(async () => {
+        await testEnv.cleanup();
+    });
+
+    // Database of a client signed in as a uid
+    const databaseOf = (uid: string) => testEnv.authenticatedContext(uid).database();
+
+    describe('players', () => {
+        const player = () => ({ s: 'AAAA', t: Date.now() });
+
+        it('lets players write their own node', async () => {
+            await assertSucceeds(databaseOf('alice').ref(`${ROOM}/players/alice`).set(player()));
+        });
+
+        it('denies writing another player\'s node', async () => {
+            await assertFails(databaseOf('alice').ref(`${ROOM}/players/bob`).set(player()));
+        });
+
+        it('denies signed out clients', async () => {
+            await assertFails(testEnv.unauthenticatedContext().database().ref(`${ROOM}/players/alice`).set(player()));
+        });
+    });
+
+    describe('projectiles', () => {
+        const projectile = (id: string, ownerUUID: string) => ({
+            id,
+            position: { x: 0, y: 4, z: 0 },
+            direction: { x: 1, y: 0, z: 0 },
+            ownerUUID,
+            weaponId: 'blaster',
+            createdAt: Date.now()
+        });
+
+        it('lets players fire their own projectiles', async () => {
+            await assertSucceeds(databaseOf('alice').ref(`${ROOM}/projectiles/p1`).set(projectile('p1', 'alice')));
+        });
+
+        it('denies projectiles fired in another player\'s name', async () => {
+            await assertFails(databaseOf('alice').ref(`${ROOM}/projectiles/p1`).set(projectile('p1', 'bob')));
+        });
+
+        it('denies bot projectiles from anyone but the host', async () => {
+            await assertFails(databaseOf('alice').ref(`${ROOM}/projectiles/p1`).set(projectile('p1', 'bot-1')));
+        });
+    });
+
+    describe('inputs', () => {
+        const inputs = () => ({ c: ['1,1,0'], t: Date.now() });
+
+        it('lets players send their own inputs', async () => {
+            await assertSucceeds(databaseOf('alice').ref(`${ROOM}/inputs/alice`).set(inputs()));
+        });
+
+        it('denies sending inputs for another player', async () => {
+            await assertFails(databaseOf('alice').ref(`${ROOM}/inputs/bob`).set(inputs()));
+        });
+    });
+
+    describe('host duties', () => {
+        const projectile = (id: string, ownerUUID: string) => ({
+            id,
+            position: { x: 0, y: 4, z: 0 },
+            direction: { x: 1, y: 0, z: 0 },
+            ownerUUID,
+            weaponId: 'blaster',
+            createdAt: Date.now()
+        });
+        const claim = { id: 'c1', projectileId: 'p1', shooterUUID: 'bob', victimUUID: 'carol', reporterUUID: 'bob', hitTime: Date.now() };
+
+        // Alice holds the host lease, bob and carol are regular players
+        beforeEach(async () => {
+            await testEnv.withSecurityRulesDisabled(async context => {
+                const room = context.database().ref(ROOM);
+                await room.child('host').set({ uuid: 'alice', expiresAt: Date.now() + 60000 });
+                await room.child('players/bob').set({ s: 'AAAA', t: Date.now() - 20000 });
+                await room.child('projectiles/p1').set(projectile('p1', 'bob'));
+                await room.child('hitClaims/c1').set(claim);
+                await room.child('deathEffects/e1').set({ id: 'e1', position: { x: 0, y: 4, z: 0 }, createdAt: Date.now() });
+            });
+        });
+
+        it('lets the host remove other players\' projectiles', async () => {
+            await assertSucceeds(databaseOf('alice').ref(`${ROOM}/projectiles/p1`).remove());
+        });
+
+        it('denies removing someone else\'s projectile in flight', async () => {
+            await assertFails(databaseOf('carol').ref(`${ROOM}/projectiles/p1`).remove());
+        });
+
+        it('lets the host consume hit claims', async () => {
+            await assertSucceeds(databaseOf('alice').ref(`${ROOM}/hitClaims/c1`).remove());
+            await assertFails(databaseOf('carol').ref(`${ROOM}/hitClaims/c1`).remove());
+        });
+
+        it('lets the host remove death effects', async () => {
+            await assertSucceeds(databaseOf('alice').ref(`${ROOM}/deathEffects/e1`).remove());
+            await assertFails(databaseOf('carol').ref(`${ROOM}/deathEffects/e1`).remove());
+        });
+
+        it('lets the host remove stale players', async () => {
+            await assertSucceeds(databaseOf('alice').ref(`${ROOM}/players/bob`).remove());
+            await assertFails(databaseOf('carol').ref(`${ROOM}/players/bob`).remove());
+        });
+
+        it('lets the host run bots', async () => {
+            const db = databaseOf('alice');
+            await assertSucceeds(db.ref(`${ROOM}/players/bot-1`).set({ s: 'AAAA', t: Date.now() }));
+            await assertSucceeds(db.ref(`${ROOM}/projectiles/p2`).set(projectile('p2', 'bot-1')));
+            await assertFails(databaseOf('carol').ref(`${ROOM}/players/bot-1`).set({ s: 'AAAA', t: Date.now() }));
+        });
+
+        it('only lets the host confirm kills', async () => {
+            const kill = { id: 'k1', killerUUID: 'bob', victimUUID: 'carol', projectileId: 'p1', weapon: 'blaster', timestamp: Date.now() };
+            await assertSucceeds(databaseOf('alice').ref(`${ROOM}/kills/k1`).set(kill));
+            await assertFails(databaseOf('bob').ref(`${ROOM}/kills/k2`).set({ ...kill, id: 'k2' }));
+        });
+    });
+
+    describe('pickups', () => {
+        const claim = (takenBy: string) => ({ takenBy, takenAt: Date.now(), availableAt: Date.now() + 30000 });
+
+        it('lets players take an item for themselves', async () => {
+            await assertSucceeds(databaseOf('alice').ref(`${ROOM}/pickups/fuel-0`).set(claim('alice')));
+        });
+
+        it('denies taking an item for another player', async () => {
+            await assertFails(databaseOf('alice').ref(`${ROOM}/pickups/fuel-0`).set(claim('bob')));
+        });
+
+        it('denies taking an item before it respawned', async () => {
+            await testEnv.withSecurityRulesDisabled(async context => {
+                await context.database().ref(`${ROOM}/pickups/fuel-0`).set(claim('bob'));
+            });
+            await assertFails(databaseOf('alice').ref(`${ROOM}/pickups/fuel-0`).set(claim('alice')));
+        });
+    });
+});
@@ -0,0 +1,110 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Vector3 } from '@babylonjs/core';
+import { HeadlessSimulation, SimulationHit } from '../src/HeadlessSimulation';
+import { Player } from '../src/Player';
+import { MovementState } from '../src/ClientPrediction';
+import { StarSystem } from '../src/StarSystem';
+import { PlanetDefinition } from '../src/Planet';
+import { Projectile } from '../src/Projectile';
+
+// A fixed world and spawn points, so every run plays out the same
+const PLANET: PlanetDefinition = {
+    seed: 1234,
+    radius: 4,
+    craterDepth: 1.6,
+    craterFrequency: 2.0,
+    textureSize: 128,
+    textureRandomness: 0.5,
+    textureOffsetU: 0,
+    textureOffsetV: 0
+};
+
+describe('HeadlessSimulation', () => {
+    let simulation: HeadlessSimulation;
+
+    beforeEach(() => {
+        let seed = 42;
+        mock.method(Math, 'random', () => {
+            seed = seed * 16807 % 2147483647;
+            return seed / 2147483647;
+        });
+        simulation = new HeadlessSimulation(StarSystem.fromPlanet(PLANET));
+    });
+
+    afterEach(() => {
+        simulation.dispose();
+        mock.restoreAll();
+    });
+
+    // State of a target standing where the shooter's shots pass at about its height. Shots
+    // orbit the planet over hills and craters, on a slope not straight along the shooter's
+    // forward axis, so follow their flight to find the spot.
+    const inLineOfFire = (shooter: Player): MovementState => {
+        const body = simulation.getSystem().getMainBody();
+        const mesh = shooter.getMesh();
+        const state = shooter.getMovementState();
+        const muzzle = mesh.position.add(mesh.forward.scale(0.5)); // See Player.shoot()
+
+        let spot: Vector3 | null = null;
+        let spotError = Infinity;
+        for (let seconds = 0.1; seconds <= 0.4; seconds += 0.05) {
+            const flight = Projectile.simulateFlight(simulation.getSystem(), muzzle, mesh.forward, seconds, shooter.getWeapon().projectileSpeed);
+            if (flight.impactTime !== null) break;
+
+            const error = Math.abs(body.getAltitude(flight.position) - state.height);
+            if (error < spotError) {
+                spot = flight.position;
+                spotError = error;
+            }
+        }
+        assert.ok(spot, 'the shooter faces a wall');
+
+        const up = spot.subtract(body.getCenter()).normalize();
+        const position = body.getCenter().add(up.scale(body.getSurfaceRadius(up) + state.height));
+        return { ...state, position: { x: position.x, y: position.y, z: position.z }, verticalVelocity: 0 };
+    };
+
+    it('moves players with their input', () => {
+        const player = simulation.addPlayer();
+        simulation.step(60); // Land on the surface
+        const start = player.getMesh().position.clone();
+
+        simulation.setInputHandler(deltaTime => player.moveForward(deltaTime));
+        simulation.step(60);
+
+        assert.ok(Vector3.Distance(start, player.getMesh().position) > 0.5);
+    });
+
+    it('confirms hits and kills', () => {
+        const shooter = simulation.addPlayer('shooter');
+        const target = simulation.addPlayer('target');
+        const hits: SimulationHit[] = [];
+        simulation.setOnHitCallback(hit => hits.push(hit));
+
+        // Wait out the target's spawn protection
+        simulation.step(200);
+
+        // Keep both still, the target in the line of fire, and shoot whenever the blaster allows
+        const aiming = shooter.getMovementState();
+        const pinned = inLineOfFire(shooter);
+        simulation.setInputHandler(() => {
+            shooter.setMovementState(aiming);
+            target.setMovementState(pinned);
+            shooter.shoot();
+        });
+
+        for (let i = 0; i < 600 && !hits.some(hit => hit.killed); i++) {
+            simulation.step();
+        }
+
+        assert.ok(hits.length > 0, 'no hit was confirmed');
+        assert.equal(hits[0].shooterUUID, 'shooter');
+        assert.equal(hits[0].victimUUID, 'target');
+        assert.ok(hits[0].health < 100);
+
+        const kill = hits.find(hit => hit.killed);
+        assert.ok(kill, 'the target was never killed');
+        assert.equal(kill.health, 0);
+    });
+});
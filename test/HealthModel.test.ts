@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { HealthModel } from '../src/HealthModel';
+
+describe('HealthModel', () => {
+    it('lets armor take part of the damage while it lasts', () => {
+        const model = new HealthModel();
+
+        // 60% of 40 damage goes to the 50 spawn armor
+        assert.deepEqual(model.computeDamage(40, 1000), { health: 84, armor: 26 });
+    });
+
+    it('lets damage beyond the armor through to health', () => {
+        const model = new HealthModel();
+        model.setState({ health: 100, armor: 10 }, 1000);
+
+        // Armor only absorbs the 10 it has left
+        assert.deepEqual(model.computeDamage(40, 1000), { health: 70, armor: 0 });
+    });
+
+    it('computes damage without changing the model', () => {
+        const model = new HealthModel();
+        model.computeDamage(90, 1000);
+
+        assert.equal(model.getHealth(1000), HealthModel.MAX_HEALTH);
+        assert.equal(model.getArmor(), HealthModel.SPAWN_ARMOR);
+    });
+
+    it('regenerates health after a while without damage', () => {
+        const model = new HealthModel();
+        model.setState({ health: 50, armor: 0 }, 1000);
+
+        assert.equal(model.getHealth(1000 + HealthModel.REGEN_DELAY), 50);
+        assert.equal(model.getHealth(1000 + HealthModel.REGEN_DELAY + 2000), 50 + 2 * HealthModel.REGEN_RATE);
+        assert.equal(model.getHealth(1000 + HealthModel.REGEN_DELAY + 60000), HealthModel.MAX_HEALTH);
+    });
+
+    it('restarts regeneration with every hit', () => {
+        const model = new HealthModel();
+        model.setState({ health: 50, armor: 0 }, 0);
+        const time = HealthModel.REGEN_DELAY + 1000; // Regenerated 10 health
+
+        const state = model.computeDamage(20, time);
+        model.setState(state, time);
+
+        assert.equal(state.health, 40);
+        assert.equal(model.getHealth(time + HealthModel.REGEN_DELAY), 40);
+    });
+
+    it('keeps dead players dead until they respawn', () => {
+        const model = new HealthModel();
+        model.setState(model.computeDamage(500, 1000), 1000);
+
+        assert.equal(model.isDead(), true);
+        assert.equal(model.getHealth(1000 + HealthModel.REGEN_DELAY + 60000), 0);
+
+        model.reset(2000);
+        assert.equal(model.isDead(), false);
+        assert.equal(model.getHealth(2000), HealthModel.MAX_HEALTH);
+        assert.equal(model.getArmor(), HealthModel.SPAWN_ARMOR);
+    });
+
+    it('heals health but not armor', () => {
+        const model = new HealthModel();
+        model.setState({ health: 30, armor: 5 }, 1000);
+
+        assert.deepEqual(model.computeHealing(50, 1000), { health: 80, armor: 5 });
+        assert.deepEqual(model.computeHealing(500, 1000), { health: HealthModel.MAX_HEALTH, armor: 5 });
+    });
+
+    it('ignores events older than the current state', () => {
+        const model = new HealthModel();
+        model.setState({ health: 60, armor: 0 }, 2000);
+
+        assert.equal(model.setState({ health: 10, armor: 0 }, 1000), false);
+        assert.equal(model.getHealth(2000), 60);
+    });
+});
@@ -0,0 +1,180 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { NullEngine, Scene, Vector3 } from '@babylonjs/core';
+import { MatchManager, MatchSettings, MatchState } from '../src/MatchManager';
+import { LocalTransport } from '../src/LocalTransport';
+import { ClockSync } from '../src/ClockSync';
+import { Scoreboard } from '../src/Scoreboard';
+import { Planet, PlanetDefinition } from '../src/Planet';
+import { KillEventData } from '../src/MultiplayerManager';
+
+const PLANET: PlanetDefinition = {
+    seed: 1234,
+    radius: 4,
+    craterDepth: 1.6,
+    craterFrequency: 2.0,
+    textureSize: 128,
+    textureRandomness: 0.5,
+    textureOffsetU: 0,
+    textureOffsetV: 0
+};
+const START = 1000000;
+const WARMUP = 15000;
+const TICK = 1000;
+
+describe('MatchManager', () => {
+    let engine: NullEngine;
+    let scene: Scene;
+    let planet: Planet;
+    let transport: LocalTransport;
+    let clock: ClockSync;
+    let manager: MatchManager;
+    let scoreboard: Scoreboard;
+    let playerUUIDs: string[];
+    let positions: Map<string, Vector3>;
+    let channel = 0;
+
+    beforeEach(() => {
+        // Drive the host's tick interval and the server clock by hand
+        mock.timers.enable({ apis: ['setInterval', 'Date'], now: START });
+        (globalThis as any).window = { setInterval, clearInterval, addEventListener() {}, removeEventListener() {} };
+
+        engine = new NullEngine();
+        scene = new Scene(engine);
+        planet = new Planet(scene, PLANET);
+        transport = new LocalTransport(`match-test-${channel++}`);
+        clock = new ClockSync(transport);
+        scoreboard = new Scoreboard();
+        playerUUIDs = ['alice', 'bob'];
+        positions = new Map();
+    });
+
+    afterEach(() => {
+        manager.dispose();
+        clock.dispose();
+        transport.dispose();
+        scene.dispose();
+        engine.dispose();
+        delete (globalThis as any).window;
+        mock.timers.reset();
+    });
+
+    const start = (settings: MatchSettings) => {
+        manager = new MatchManager(scene, transport, 'rooms/TEST/match', 'rooms/TEST/kills', settings, clock, planet, {
+            isHost: () => true,
+            getPlayerUUIDs: () => playerUUIDs,
+            getPlayerPosition: uuid => positions.get(uuid) || null,
+            getPlayerBody: () => planet,
+            getScoreboard: () => scoreboard
+        }, () => {});
+        manager.start();
+    };
+
+    // Runs the host ticks of a period and lets the written state come back
+    const advance = async (time: number) => {
+        for (let elapsed = 0; elapsed < time; elapsed += TICK) {
+            mock.timers.tick(TICK);
+            await new Promise(resolve => setImmediate(resolve));
+        }
+    };
+
+    const state = (): MatchState => {
+        const current = manager.getState();
+        assert.ok(current, 'no match state');
+        return current;
+    };
+
+    const kill = (id: string, killerUUID: string, victimUUID: string): KillEventData => ({
+        id, killerUUID, victimUUID, projectileId: `p-${id}`, weapon: 'blaster', timestamp: Date.now()
+    });
+
+    // A point on the planet at an angle from the capture zone
+    const nearZone = (angle: number): Vector3 => {
+        const zone = state().zone!;
+        const up = new Vector3(zone.x, zone.y, zone.z);
+        const side = Vector3.Cross(up, Math.abs(up.y) < 0.9 ? Vector3.Up() : Vector3.Right()).normalize();
+        return up.scale(Math.cos(angle)).add(side.scale(Math.sin(angle))).scale(PLANET.radius);
+    };
+
+    it('goes from warmup to live', async () => {
+        start({ mode: 'ffa', scoreLimit: 3, timeLimit: 60000 });
+
+        await advance(TICK);
+        assert.equal(state().phase, 'warmup');
+        assert.equal(manager.isCounted(Date.now()), false);
+
+        await advance(WARMUP);
+        assert.equal(state().phase, 'live');
+        assert.equal(state().liveStartedAt, Date.now());
+        assert.equal(manager.isCounted(Date.now()), true);
+    });
+
+    it('ends the match at the score limit and starts over after the results', async () => {
+        start({ mode: 'ffa', scoreLimit: 2, timeLimit: 60000 });
+        await advance(TICK + WARMUP);
+
+        scoreboard.rebuild([kill('k1', 'alice', 'bob'), kill('k2', 'alice', 'bob')]);
+        await advance(TICK);
+        assert.equal(state().phase, 'results');
+        assert.equal(state().winner, 'alice');
+
+        await advance(state().phaseEndsAt - Date.now());
+        assert.equal(state().phase, 'warmup');
+    });
+
+    it('goes to overtime when tied at the time limit, and the next frag wins', async () => {
+        start({ mode: 'ffa', scoreLimit: 10, timeLimit: 10000 });
+        await advance(TICK + WARMUP);
+
+        scoreboard.rebuild([kill('k1', 'alice', 'bob'), kill('k2', 'bob', 'alice')]);
+        await advance(10000);
+        assert.equal(state().phase, 'overtime');
+
+        scoreboard.rebuild([kill('k1', 'alice', 'bob'), kill('k2', 'bob', 'alice'), kill('k3', 'bob', 'alice')]);
+        await advance(TICK);
+        assert.equal(state().phase, 'results');
+        assert.equal(state().winner, 'bob');
+    });
+
+    it('ends in a draw when still tied after overtime', async () => {
+        start({ mode: 'ffa', scoreLimit: 10, timeLimit: 10000 });
+        await advance(TICK + WARMUP + 10000);
+        assert.equal(state().phase, 'overtime');
+
+        await advance(60000);
+        assert.equal(state().phase, 'results');
+        assert.equal(state().winner, undefined);
+    });
+
+    it('scores the player holding the zone alone in king of the hill', async () => {
+        start({ mode: 'koth', scoreLimit: 5, timeLimit: 60000 });
+        await advance(TICK + WARMUP);
+
+        positions.set('alice', nearZone(0.1));
+        positions.set('bob', nearZone(Math.PI / 2));
+        await advance(3 * TICK);
+        assert.deepEqual(state().zoneScores, { alice: 3 });
+
+        // A contested zone doesn't score
+        positions.set('bob', nearZone(0.2));
+        await advance(3 * TICK);
+        assert.deepEqual(state().zoneScores, { alice: 3 });
+
+        positions.set('bob', nearZone(Math.PI / 2));
+        await advance(2 * TICK);
+        assert.equal(state().phase, 'results');
+        assert.equal(state().winner, 'alice');
+        assert.deepEqual(manager.getStandings(), [{ id: 'alice', score: 5 }, { id: 'bob', score: 0 }]);
+    });
+
+    it('moves the capture zone from time to time', async () => {
+        start({ mode: 'koth', scoreLimit: 500, timeLimit: 600000 });
+        await advance(TICK);
+        const first = state().zone;
+
+        await advance(WARMUP + 30000);
+        assert.notDeepEqual(state().zone, first);
+        const zone = state().zone!;
+        assert.ok(Math.abs(new Vector3(zone.x, zone.y, zone.z).length() - 1) < 1e-9);
+    });
+});
@@ -0,0 +1,110 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { NullEngine, Scene, Vector3, Quaternion } from '@babylonjs/core';
+import { PlayerStateCodec } from '../src/PlayerStateCodec';
+import { StarSystem } from '../src/StarSystem';
+import { PlanetDefinition } from '../src/Planet';
+import { PlayerData } from '../src/MultiplayerManager';
+
+const PLANET: PlanetDefinition = {
+    seed: 1234,
+    radius: 4,
+    craterDepth: 1.6,
+    craterFrequency: 2.0,
+    textureSize: 128,
+    textureRandomness: 0.5,
+    textureOffsetU: 0,
+    textureOffsetV: 0
+};
+const MOON: PlanetDefinition = { ...PLANET, seed: 99, radius: 2, center: { x: 9, y: 0, z: 0 }, gravity: 0.8 };
+
+describe('PlayerStateCodec', () => {
+    let engine: NullEngine;
+    let scene: Scene;
+    let codec: PlayerStateCodec;
+
+    before(() => {
+        engine = new NullEngine();
+        scene = new Scene(engine);
+        codec = new PlayerStateCodec(new StarSystem(scene, { bodies: [PLANET, MOON] }));
+    });
+
+    after(() => {
+        scene.dispose();
+        engine.dispose();
+    });
+
+    // A player standing at a height above a body, facing somewhere
+    const playerAt = (center: Vector3, direction: Vector3, radius: number, rotation: Quaternion): PlayerData => {
+        const position = center.add(direction.normalize().scale(radius));
+        return {
+            position: { x: position.x, y: position.y, z: position.z },
+            rotation: { x: rotation.x, y: rotation.y, z: rotation.z, w: rotation.w },
+            isJetpackActive: true,
+            isShielded: false,
+            lastUpdate: 123456
+        };
+    };
+
+    const distance = (a: { x: number, y: number, z: number }, b: { x: number, y: number, z: number }) =>
+        Vector3.Distance(new Vector3(a.x, a.y, a.z), new Vector3(b.x, b.y, b.z));
+
+    // 1 when both quaternions are the same rotation
+    const similarity = (a: PlayerData['rotation'], b: PlayerData['rotation']) =>
+        Math.abs(a.x * b.x + a.y * b.y + a.z * b.z + a.w * b.w);
+
+    it('round-trips a state within the quantization step', () => {
+        const rotation = Quaternion.RotationYawPitchRoll(0.7, -1.2, 2.1);
+        const data = playerAt(Vector3.Zero(), new Vector3(0.3, -0.8, 0.5), 5.2, rotation);
+
+        const decoded = codec.decode(codec.encode(data));
+
+        assert.ok(decoded);
+        assert.ok(distance(decoded.position, data.position) < 0.01);
+        assert.ok(similarity(decoded.rotation, data.rotation) > 0.9999);
+        assert.equal(decoded.isJetpackActive, true);
+        assert.equal(decoded.isShielded, false);
+        assert.equal(decoded.lastUpdate, 123456);
+    });
+
+    it('keeps rotations whose largest component is negative', () => {
+        const data = playerAt(Vector3.Zero(), Vector3.Up(), 4.5, new Quaternion(0.1, -0.2, 0.05, -0.97).normalize());
+
+        const decoded = codec.decode(codec.encode(data));
+
+        assert.ok(decoded);
+        assert.ok(similarity(decoded.rotation, data.rotation) > 0.9999);
+    });
+
+    it('places players around the body they belong to', () => {
+        const moonCenter = new Vector3(9, 0, 0);
+        const data = playerAt(moonCenter, new Vector3(0, 1, 1), 2.5, Quaternion.Identity());
+
+        const decoded = codec.decode(codec.encode(data));
+
+        assert.ok(decoded);
+        assert.ok(distance(decoded.position, data.position) < 0.01);
+    });
+
+    it('clamps heights outside the encoded range', () => {
+        const direction = new Vector3(1, 1, 0).normalize();
+        const high = codec.decode(codec.encode(playerAt(Vector3.Zero(), direction, PLANET.radius + 20, Quaternion.Identity())));
+        const deep = codec.decode(codec.encode(playerAt(Vector3.Zero(), direction, PLANET.radius - 3, Quaternion.Identity())));
+
+        assert.ok(high && deep);
+        const highRadius = new Vector3(high.position.x, high.position.y, high.position.z).length();
+        const deepRadius = new Vector3(deep.position.x, deep.position.y, deep.position.z).length();
+        assert.ok(Math.abs(highRadius - (PLANET.radius + 6)) < 0.01);
+        assert.ok(Math.abs(deepRadius - (PLANET.radius - 2)) < 0.01);
+    });
+
+    it('rejects malformed payloads', () => {
+        const valid = codec.encode(playerAt(Vector3.Zero(), Vector3.Up(), 4.5, Quaternion.Identity()));
+
+        assert.equal(codec.decode({ s: '%%not base64%%', t: 0 }), null);
+        assert.equal(codec.decode({ s: valid.s.substring(0, 8), t: 0 }), null);
+        assert.equal(codec.decode({ s: valid.s + 'AAAA', t: 0 }), null);
+        assert.equal(codec.decode({ s: '/////////////w==', t: 0 }), null); // Body 7 of 2
+        assert.equal(codec.decode({ t: 0 } as any), null);
+    });
+});
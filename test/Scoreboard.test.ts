@@ -0,0 +1,72 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Scoreboard } from '../src/Scoreboard';
+import { KillEventData } from '../src/MultiplayerManager';
+
+describe('Scoreboard', () => {
+    const kill = (id: string, killerUUID: string, victimUUID: string, timestamp: number): KillEventData => ({
+        id,
+        killerUUID,
+        victimUUID,
+        projectileId: `p-${id}`,
+        weapon: 'blaster',
+        timestamp
+    });
+
+    it('counts kills and deaths', () => {
+        const scoreboard = new Scoreboard();
+        scoreboard.rebuild([
+            kill('k1', 'alice', 'bob', 1000),
+            kill('k2', 'alice', 'carol', 2000),
+            kill('k3', 'bob', 'alice', 3000)
+        ]);
+
+        assert.deepEqual(scoreboard.getScore('alice'), { uuid: 'alice', kills: 2, deaths: 1, streak: 0, bestStreak: 2 });
+        assert.deepEqual(scoreboard.getScore('bob'), { uuid: 'bob', kills: 1, deaths: 1, streak: 1, bestStreak: 1 });
+        assert.deepEqual(scoreboard.getScore('carol'), { uuid: 'carol', kills: 0, deaths: 1, streak: 0, bestStreak: 0 });
+    });
+
+    it('derives streaks in time order whatever order the events arrive in', () => {
+        const kills = [
+            kill('k1', 'alice', 'bob', 1000),
+            kill('k2', 'bob', 'alice', 2000),
+            kill('k3', 'alice', 'bob', 3000),
+            kill('k4', 'alice', 'carol', 4000)
+        ];
+        const ordered = new Scoreboard();
+        const shuffled = new Scoreboard();
+        ordered.rebuild(kills);
+        shuffled.rebuild([kills[3], kills[1], kills[0], kills[2]]);
+
+        assert.deepEqual(shuffled.getScore('alice'), ordered.getScore('alice'));
+        assert.equal(ordered.getScore('alice').streak, 2);
+        assert.equal(ordered.getScore('alice').bestStreak, 2);
+    });
+
+    it('only counts self kills as deaths', () => {
+        const scoreboard = new Scoreboard();
+        scoreboard.rebuild([kill('k1', 'alice', 'bob', 1000), kill('k2', 'alice', 'alice', 2000)]);
+
+        assert.deepEqual(scoreboard.getScore('alice'), { uuid: 'alice', kills: 1, deaths: 1, streak: 0, bestStreak: 1 });
+    });
+
+    it('starts over on every rebuild', () => {
+        const scoreboard = new Scoreboard();
+        scoreboard.rebuild([kill('k1', 'alice', 'bob', 1000)]);
+        scoreboard.rebuild([]);
+
+        assert.equal(scoreboard.getScore('alice').kills, 0);
+        assert.deepEqual(scoreboard.getRanking(), []);
+    });
+
+    it('ranks by kills, then fewest deaths, including players without events', () => {
+        const scoreboard = new Scoreboard();
+        scoreboard.rebuild([
+            kill('k1', 'alice', 'bob', 1000),
+            kill('k2', 'carol', 'bob', 2000),
+            kill('k3', 'carol', 'alice', 3000)
+        ]);
+
+        assert.deepEqual(scoreboard.getRanking(['dave']).map(score => score.uuid), ['carol', 'alice', 'dave', 'bob']);
+    });
+});
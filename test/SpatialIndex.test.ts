@@ -0,0 +1,113 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { NullEngine, Scene, Vector3 } from '@babylonjs/core';
+import { SpatialIndex } from '../src/SpatialIndex';
+import { StarSystem } from '../src/StarSystem';
+import { PlanetDefinition } from '../src/Planet';
+
+const PLANET: PlanetDefinition = {
+    seed: 1234,
+    radius: 4,
+    craterDepth: 1.6,
+    craterFrequency: 2.0,
+    textureSize: 128,
+    textureRandomness: 0.5,
+    textureOffsetU: 0,
+    textureOffsetV: 0
+};
+const MOON: PlanetDefinition = { ...PLANET, seed: 99, radius: 2, center: { x: 9, y: 0, z: 0 }, gravity: 0.8 };
+
+describe('SpatialIndex.querySegment', () => {
+    let engine: NullEngine;
+    let scene: Scene;
+    let system: StarSystem;
+
+    before(() => {
+        engine = new NullEngine();
+        scene = new Scene(engine);
+        system = new StarSystem(scene, { bodies: [PLANET, MOON] });
+    });
+
+    after(() => {
+        scene.dispose();
+        engine.dispose();
+    });
+
+    // A point at a height above the main planet
+    const above = (x: number, y: number, z: number, radius: number) => new Vector3(x, y, z).normalize().scale(radius);
+
+    it('returns the objects along the path, nearest to the start first', () => {
+        const index = new SpatialIndex<string>(system);
+        index.set('far', 'far', above(1, 0, 0.6, 4.5), 0.3);
+        index.set('near', 'near', above(1, 0, 0.1, 4.5), 0.3);
+        index.set('aside', 'aside', above(1, 1, 0.3, 4.5), 0.3);
+
+        const hits = index.querySegment(above(1, 0, -0.2, 4.5), above(1, 0, 0.8, 4.5), 0.1);
+
+        assert.deepEqual(hits, ['near', 'far']);
+    });
+
+    it('finds objects touched between the ends of a long segment', () => {
+        const index = new SpatialIndex<string>(system);
+        index.set('middle', 'middle', above(0, 1, 0, 4.5), 0.3);
+
+        // The chord runs from one side of the planet to the other, over the top
+        const hits = index.querySegment(above(-1, 1, 0, 6.36), above(1, 1, 0, 6.36), 0.1);
+
+        assert.deepEqual(hits, ['middle']);
+    });
+
+    it('forgets removed objects and follows moved ones', () => {
+        const index = new SpatialIndex<string>(system);
+        index.set('a', 'a', above(0, 0, 1, 4.5), 0.3);
+        index.set('b', 'b', above(0, 0, 1, 4.5), 0.3);
+        index.remove('a');
+        index.set('b', 'b', above(0, 0, -1, 4.5), 0.3);
+
+        assert.deepEqual(index.queryRadius(above(0, 0, 1, 4.5), 0.5), []);
+        assert.deepEqual(index.queryRadius(above(0, 0, -1, 4.5), 0.5), ['b']);
+    });
+
+    it('finds objects around the moons', () => {
+        const index = new SpatialIndex<string>(system);
+        index.set('moon', 'moon', new Vector3(9, 2.4, 0), 0.3);
+
+        assert.deepEqual(index.querySegment(new Vector3(8, 2.4, 0), new Vector3(10, 2.4, 0), 0.1), ['moon']);
+        assert.deepEqual(index.querySegment(new Vector3(8, -2.4, 0), new Vector3(10, -2.4, 0), 0.1), []);
+    });
+
+    it('agrees with checking every object', () => {
+        // Deterministic pseudo random numbers, so a failure can be reproduced
+        let seed = 7;
+        const random = () => {
+            seed = seed * 16807 % 2147483647;
+            return seed / 2147483647;
+        };
+        const randomPoint = () => above(random() * 2 - 1, random() * 2 - 1, random() * 2 - 1, 4 + random() * 3);
+
+        const index = new SpatialIndex<number>(system);
+        const objects: { position: Vector3, radius: number }[] = [];
+        for (let i = 0; i < 400; i++) {
+            const object = { position: randomPoint(), radius: 0.2 + random() * 0.3 };
+            objects.push(object);
+            index.set(String(i), i, object.position, object.radius);
+        }
+
+        for (let q = 0; q < 200; q++) {
+            const start = randomPoint();
+            const end = start.add(new Vector3(random() - 0.5, random() - 0.5, random() - 0.5).scale(4));
+            const radius = random() * 0.2;
+
+            const segment = end.subtract(start);
+            const expected = objects
+                .map((object, i) => {
+                    const along = Math.max(0, Math.min(1, Vector3.Dot(object.position.subtract(start), segment) / segment.lengthSquared()));
+                    const touched = Vector3.Distance(start.add(segment.scale(along)), object.position) <= radius + object.radius;
+                    return touched ? i : -1;
+                })
+                .filter(i => i >= 0);
+
+            assert.deepEqual(index.querySegment(start, end, radius).sort((a, b) => a - b), expected);
+        }
+    });
+});
@@ -0,0 +1,93 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { WeaponState } from '../src/WeaponState';
+import { WeaponRegistry } from '../src/WeaponRegistry';
+
+describe('WeaponState', () => {
+    const blaster = WeaponRegistry.get('blaster'); // 10 shots, 400 ms apart, 1500 ms reload
+    const rapid = WeaponRegistry.get('rapid'); // Heat limited, 100 ms apart
+
+    it('limits the fire rate', () => {
+        const state = new WeaponState(blaster);
+
+        assert.equal(state.fire(1000), true);
+        assert.equal(state.fire(1000 + blaster.fireInterval - 1), false);
+        assert.equal(state.fire(1000 + blaster.fireInterval), true);
+    });
+
+    it('reloads once the magazine is empty', () => {
+        const state = new WeaponState(blaster);
+        let time = 0;
+        for (let i = 0; i < blaster.magazineSize; i++) {
+            time += blaster.fireInterval;
+            assert.equal(state.fire(time), true);
+        }
+
+        assert.equal(state.getAmmo(time), 0);
+        assert.equal(state.isReloading(time), true);
+        assert.equal(state.fire(time + blaster.fireInterval), false);
+        assert.equal(state.getReloadProgress(time + blaster.reloadTime / 2), 0.5);
+
+        time += blaster.reloadTime;
+        assert.equal(state.getAmmo(time), blaster.magazineSize);
+        assert.equal(state.fire(time), true);
+    });
+
+    it('reloads a partly empty magazine on request', () => {
+        const state = new WeaponState(blaster);
+        state.fire(0);
+        state.reload(500);
+
+        assert.equal(state.fire(1000), false);
+        assert.equal(state.getAmmo(500 + blaster.reloadTime), blaster.magazineSize);
+    });
+
+    it('overheats and fires again once cooled down', () => {
+        const state = new WeaponState(rapid);
+        let time = 0;
+        while (!state.isOverheated(time)) {
+            assert.equal(state.fire(time), true);
+            time += rapid.fireInterval;
+        }
+
+        assert.equal(state.fire(time), false);
+
+        // Cooling to the recovered heat unlocks the weapon
+        const coolTime = (state.getHeat(time) - WeaponState.RECOVERED_HEAT) / rapid.coolingRate * 1000;
+        assert.equal(state.fire(time + coolTime - 100), false);
+        assert.equal(state.fire(time + coolTime + 1), true);
+    });
+
+    it('cools down between bursts', () => {
+        const state = new WeaponState(rapid);
+        state.fire(0);
+        state.fire(100);
+
+        // The first shot's heat cooled for 100 ms before the second one added to it
+        const heat = rapid.heatPerShot * 2 - rapid.coolingRate * 0.1;
+        assert.equal(state.getHeat(100), heat);
+        assert.equal(state.getHeat(200), heat - rapid.coolingRate * 0.1);
+        assert.equal(state.getHeat(100 + 1000), Math.max(0, heat - rapid.coolingRate));
+    });
+
+    it('lets replayed shots through within the tolerance', () => {
+        const state = new WeaponState(blaster, 50);
+
+        assert.equal(state.fire(0), true);
+        assert.equal(state.fire(blaster.fireInterval - 40), true);
+        assert.equal(state.fire(2 * blaster.fireInterval - 40 - 60), false);
+    });
+
+    it('assumes remote shooters reloaded during long pauses', () => {
+        const replayed = new WeaponState(blaster, 0, true);
+        const strict = new WeaponState(blaster);
+        for (let i = 0; i < blaster.magazineSize - 1; i++) {
+            replayed.fire(i * blaster.fireInterval);
+            strict.fire(i * blaster.fireInterval);
+        }
+
+        const later = blaster.magazineSize * blaster.fireInterval + blaster.reloadTime;
+        assert.equal(replayed.getAmmo(later), blaster.magazineSize);
+        assert.equal(strict.getAmmo(later), 1);
+    });
+});